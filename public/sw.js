@@ -0,0 +1,30 @@
+// Receives Web Push messages from the send-notifications edge function.
+// Payload: { title, body, link, tag } where link is the app page to open.
+
+self.addEventListener('push', (event) => {
+  const payload = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'Finance Tracker', {
+      body: payload.body || '',
+      tag: payload.tag,
+      data: { link: payload.link || 'dashboard' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const url = new URL(`/?page=${encodeURIComponent(event.notification.data.link)}`, self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        return existing.focus().then((client) => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
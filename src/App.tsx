@@ -1,19 +1,27 @@
 import { useState } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { CurrencyProvider } from './contexts/CurrencyContext';
 import { AuthForm } from './components/auth/AuthForm';
+import { ResetPasswordForm } from './components/auth/ResetPasswordForm';
 import { Sidebar } from './components/layout/Sidebar';
 import { Header } from './components/layout/Header';
 import { Dashboard } from './pages/Dashboard';
 import { Transactions } from './pages/Transactions';
+import { Accounts } from './pages/Accounts';
+import { Categories } from './pages/Categories';
 import { Budget } from './pages/Budget';
+import { Goals } from './pages/Goals';
 import { Analytics } from './pages/Analytics';
 import { Reminders } from './pages/Reminders';
 import { Profile } from './pages/Profile';
 
 function AppContent() {
-  const { user, loading } = useAuth();
-  const [currentPage, setCurrentPage] = useState('dashboard');
+  const { user, loading, passwordRecovery } = useAuth();
+  // Push notifications open the app with ?page=<page>
+  const [currentPage, setCurrentPage] = useState(
+    () => new URLSearchParams(window.location.search).get('page') ?? 'dashboard'
+  );
 
   if (loading) {
     return (
@@ -27,23 +35,44 @@ function AppContent() {
     return <AuthForm />;
   }
 
-  const pageTitle = {
+  if (passwordRecovery) {
+    return <ResetPasswordForm />;
+  }
+
+  const pageTitles: Record<string, string> = {
     dashboard: 'Dashboard',
     transactions: 'Transactions',
+    accounts: 'Accounts',
+    categories: 'Categories',
     budget: 'Budget Planning',
+    goals: 'Savings Goals',
     analytics: 'Analytics',
     reminders: 'Bill Reminders',
     profile: 'Profile Settings',
-  }[currentPage];
+  };
+  const pageTitle = pageTitles[currentPage] ?? pageTitles.dashboard;
+
+  // The URL always names the current page, so pages that keep their own state in it (like the
+  // Analytics period) can be bookmarked; that state is dropped when moving to another page
+  const navigate = (page: string) => {
+    window.history.replaceState(null, '', `?page=${page}`);
+    setCurrentPage(page);
+  };
 
   const renderPage = () => {
     switch (currentPage) {
       case 'dashboard':
-        return <Dashboard />;
+        return <Dashboard onNavigate={navigate} />;
       case 'transactions':
         return <Transactions />;
+      case 'accounts':
+        return <Accounts />;
+      case 'categories':
+        return <Categories />;
       case 'budget':
         return <Budget />;
+      case 'goals':
+        return <Goals />;
       case 'analytics':
         return <Analytics />;
       case 'reminders':
@@ -51,16 +80,16 @@ function AppContent() {
       case 'profile':
         return <Profile />;
       default:
-        return <Dashboard />;
+        return <Dashboard onNavigate={navigate} />;
     }
   };
 
   return (
     <div className="flex h-screen bg-slate-100 dark:bg-slate-900">
-      <Sidebar currentPage={currentPage} onNavigate={setCurrentPage} />
+      <Sidebar currentPage={currentPage} onNavigate={navigate} />
 
       <div className="flex-1 flex flex-col overflow-hidden">
-        <Header title={pageTitle} />
+        <Header title={pageTitle} onNavigate={navigate} />
 
         <main className="flex-1 overflow-y-auto p-8">
           {renderPage()}
@@ -74,7 +103,9 @@ function App() {
   return (
     <AuthProvider>
       <ThemeProvider>
-        <AppContent />
+        <CurrencyProvider>
+          <AppContent />
+        </CurrencyProvider>
       </ThemeProvider>
     </AuthProvider>
   );
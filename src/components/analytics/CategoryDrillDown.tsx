@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import type { DateRange } from '../../lib/dateRanges';
+import { loadDescriptionTotals } from '../../lib/reports';
+
+interface CategoryDrillDownProps {
+  category: { categoryId: string | null; name: string; color: string };
+  range: DateRange;
+  // Month labels and the category's spending in each, in order
+  labels: string[];
+  trend: number[];
+  // Number of the category's expenses in the range, of which only the latest pages are loaded
+  transactionCount: number;
+  onClose: () => void;
+}
+
+interface CategoryTransaction {
+  id: string;
+  date: string;
+  description: string;
+  amount: number;
+  currency: string;
+  exchange_rate: number;
+}
+
+interface DescriptionTotal {
+  description: string;
+  total: number;
+  transaction_count: number;
+}
+
+const TOP_DESCRIPTIONS = 5;
+const PAGE_SIZE = 50;
+
+export function CategoryDrillDown({
+  category,
+  range,
+  labels,
+  trend,
+  transactionCount,
+  onClose,
+}: CategoryDrillDownProps) {
+  const { user } = useAuth();
+  const { formatCurrency, formatDate } = useCurrency();
+  // The latest transactions in the category, newest first
+  const [transactions, setTransactions] = useState<CategoryTransaction[]>([]);
+  const [topDescriptions, setTopDescriptions] = useState<DescriptionTotal[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      loadTransactions(0);
+      loadDescriptions();
+    }
+  }, [user, category.categoryId, range.from, range.to]);
+
+  const loadDescriptions = async () => {
+    setTopDescriptions(await loadDescriptionTotals(category.categoryId, range.from, range.to, TOP_DESCRIPTIONS));
+  };
+
+  const loadTransactions = async (from: number) => {
+    if (!user) return;
+
+    let query = supabase
+      .from('transactions')
+      .select('id, date, description, amount, currency, exchange_rate')
+      .eq('user_id', user.id)
+      .eq('type', 'expense')
+      .gte('date', range.from)
+      .lte('date', range.to);
+
+    query = category.categoryId ? query.eq('category_id', category.categoryId) : query.is('category_id', null);
+
+    const { data } = await query
+      .order('date', { ascending: false })
+      .order('id', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (data) {
+      setTransactions((prev) => (from === 0 ? data : [...prev, ...data]));
+    }
+  };
+
+  // From the same monthly totals as the chart, so it covers every transaction, not just the loaded ones
+  const total = trend.reduce((sum, amount) => sum + amount, 0);
+
+  const peak = Math.max(...trend, 0);
+  const peakIndex = trend.indexOf(peak);
+  const points = trend
+    .map((amount, index) => `${(index / Math.max(trend.length - 1, 1)) * 100},${40 - (peak > 0 ? (amount / peak) * 36 : 0)}`)
+    .join(' ');
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-4 h-4 rounded-full" style={{ backgroundColor: category.color }} />
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white">{category.name}</h3>
+          <span className="text-sm text-slate-500 dark:text-slate-400">
+            {formatCurrency(total)} across {transactionCount} transaction{transactionCount === 1 ? '' : 's'}
+          </span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          title="Close"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-6">
+          <div>
+            <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-3">Monthly Trend</h4>
+            {trend.length < 2 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400 py-6">
+                Choose a period longer than a month to see how this category trends.
+              </p>
+            ) : (
+              <>
+                <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-32">
+                  <polyline
+                    points={points}
+                    fill="none"
+                    stroke={category.color}
+                    strokeWidth="2"
+                    strokeLinejoin="round"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </svg>
+                <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 mt-2">
+                  <span>{labels[0]}</span>
+                  <span>
+                    Peak {formatCurrency(peak)} in {labels[peakIndex]}
+                  </span>
+                  <span>{labels[labels.length - 1]}</span>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-3">Top Descriptions</h4>
+            {topDescriptions.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">No transactions in this period.</p>
+            ) : (
+              <div className="space-y-3">
+                {topDescriptions.map((item) => (
+                  <div key={item.description.toLowerCase()}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="font-medium text-slate-900 dark:text-white truncate">
+                        {item.description || 'No description'}
+                      </span>
+                      <span className="text-slate-600 dark:text-slate-400 whitespace-nowrap ml-3">
+                        {formatCurrency(item.total)} · {item.transaction_count}×
+                      </span>
+                    </div>
+                    <div className="h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                      <div
+                        className="h-full transition-all duration-500"
+                        style={{
+                          width: `${total > 0 ? (item.total / total) * 100 : 0}%`,
+                          backgroundColor: category.color,
+                        }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-3">Transactions</h4>
+          <div className="max-h-96 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700">
+            {transactions.map((transaction) => (
+              <div key={transaction.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-slate-900 dark:text-white truncate">
+                    {transaction.description || 'No description'}
+                  </p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{formatDate(transaction.date)}</p>
+                </div>
+                <p className="font-semibold text-red-600 dark:text-red-400 whitespace-nowrap">
+                  -{formatCurrency(Number(transaction.amount), transaction.currency)}
+                </p>
+              </div>
+            ))}
+          </div>
+          {transactions.length < transactionCount && (
+            <button
+              onClick={() => loadTransactions(transactions.length)}
+              className="mt-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Load older transactions
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useCurrency } from '../../contexts/CurrencyContext';
+
+export interface CategorySeries {
+  // Undefined for the "Other" series, which can't be drilled into
+  categoryId?: string | null;
+  name: string;
+  color: string;
+  values: number[];
+}
+
+interface CategorySpendingChartProps {
+  labels: string[];
+  series: CategorySeries[];
+  onSelect: (series: CategorySeries) => void;
+}
+
+// Stacked areas of spending per category per month; series are drawn bottom to top in order
+export function CategorySpendingChart({ labels, series, onSelect }: CategorySpendingChartProps) {
+  const { formatCurrency } = useCurrency();
+
+  const stackTotals = labels.map((_, index) => series.reduce((sum, s) => sum + s.values[index], 0));
+  const max = Math.max(...stackTotals, 0);
+  const x = (index: number) => (index / Math.max(labels.length - 1, 1)) * 100;
+  const y = (value: number) => 50 - (max > 0 ? (value / max) * 50 : 0);
+
+  const baselines = labels.map(() => 0);
+  const areas = series.map((s) => {
+    const bottom = [...baselines];
+    const top = bottom.map((value, index) => value + s.values[index]);
+    top.forEach((value, index) => {
+      baselines[index] = value;
+    });
+
+    const upper = top.map((value, index) => `${x(index)},${y(value)}`);
+    const lower = bottom.map((value, index) => `${x(index)},${y(value)}`).reverse();
+    return { series: s, path: `M${upper.join(' L')} L${lower.join(' L')} Z` };
+  });
+
+  if (labels.length < 2) {
+    return (
+      <p className="text-center text-slate-500 dark:text-slate-400 py-12">
+        Choose a period longer than a month to see spending over time
+      </p>
+    );
+  }
+
+  if (max === 0) {
+    return (
+      <p className="text-center text-slate-500 dark:text-slate-400 py-12">No expense data available for this period</p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <svg viewBox="0 0 100 50" preserveAspectRatio="none" className="w-full h-64">
+        {areas.map(({ series: s, path }) => (
+          <path
+            key={s.name}
+            d={path}
+            fill={s.color}
+            fillOpacity="0.75"
+            stroke={s.color}
+            strokeWidth="1"
+            vectorEffect="non-scaling-stroke"
+            onClick={() => s.categoryId !== undefined && onSelect(s)}
+            className={s.categoryId !== undefined ? 'cursor-pointer hover:opacity-80 transition-opacity' : ''}
+          >
+            <title>
+              {s.name}: {formatCurrency(s.values.reduce((sum, value) => sum + value, 0))}
+            </title>
+          </path>
+        ))}
+      </svg>
+
+      <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+        <span>{labels[0]}</span>
+        <span>{labels[labels.length - 1]}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-4 justify-center">
+        {[...series].reverse().map((s) => (
+          <button
+            key={s.name}
+            onClick={() => onSelect(s)}
+            disabled={s.categoryId === undefined}
+            className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400 enabled:hover:text-slate-900 dark:enabled:hover:text-white"
+          >
+            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: s.color }} />
+            {s.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { presetRange, rangePresets, type DateRange, type RangePreset, type SelectedRange } from '../../lib/dateRanges';
+
+interface PeriodPickerProps {
+  value: SelectedRange;
+  onChange: (value: SelectedRange) => void;
+}
+
+const inputClassName =
+  'px-4 py-2.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white';
+
+export function PeriodPicker({ value, onChange }: PeriodPickerProps) {
+  const { preset, range } = value;
+
+  // A custom range starts from whatever was showing, so it only needs adjusting
+  const handlePresetChange = (next: RangePreset) => {
+    onChange({ preset: next, range: next === 'custom' ? range : presetRange(next) });
+  };
+
+  const handleDateChange = (changes: Partial<DateRange>) => {
+    const next = { ...range, ...changes };
+    if (!next.from || !next.to || next.from > next.to) return;
+    onChange({ preset: 'custom', range: next });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <select
+        value={preset}
+        onChange={(e) => handlePresetChange(e.target.value as RangePreset)}
+        className={inputClassName}
+      >
+        {rangePresets.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {preset === 'custom' && (
+        <>
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => handleDateChange({ from: e.target.value })}
+            className={inputClassName}
+          />
+          <span className="text-slate-500 dark:text-slate-400">to</span>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => handleDateChange({ to: e.target.value })}
+            className={inputClassName}
+          />
+        </>
+      )}
+    </div>
+  );
+}
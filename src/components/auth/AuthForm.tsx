@@ -1,37 +1,90 @@
 import { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { Wallet, Mail, Lock, User, AlertCircle } from 'lucide-react';
+import { Wallet, Mail, Lock, User, AlertCircle, CheckCircle, Github, Sparkles, ArrowLeft } from 'lucide-react';
 
+type AuthMode = 'signIn' | 'signUp' | 'forgotPassword' | 'magicLink';
+
+const subtitles: Record<AuthMode, string> = {
+  signIn: 'Welcome back',
+  signUp: 'Create your account',
+  forgotPassword: 'Reset your password',
+  magicLink: 'Sign in with a magic link',
+};
+
+const submitLabels: Record<AuthMode, string> = {
+  signIn: 'Sign In',
+  signUp: 'Sign Up',
+  forgotPassword: 'Send Reset Link',
+  magicLink: 'Send Magic Link',
+};
 
 export function AuthForm() {
-  const [isSignUp, setIsSignUp] = useState(false);
+  const [mode, setMode] = useState<AuthMode>('signIn');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [fullName, setFullName] = useState('');
   const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
   const [loading, setLoading] = useState(false);
-  const { signIn, signUp } = useAuth();
+  const { signIn, signUp, signInWithMagicLink, signInWithOAuth, resetPassword } = useAuth();
+
+  const switchMode = (nextMode: AuthMode) => {
+    setMode(nextMode);
+    setError('');
+    setMessage('');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setMessage('');
     setLoading(true);
 
     try {
-      const { error } = isSignUp
-        ? await signUp(email, password, fullName)
-        : await signIn(email, password);
+      let result;
+      switch (mode) {
+        case 'signUp':
+          result = await signUp(email, password, fullName);
+          break;
+        case 'forgotPassword':
+          result = await resetPassword(email);
+          break;
+        case 'magicLink':
+          result = await signInWithMagicLink(email);
+          break;
+        default:
+          result = await signIn(email, password);
+      }
 
-      if (error) {
-        setError(error.message);
+      if (result.error) {
+        setError(result.error.message);
+      } else if (mode === 'signUp') {
+        setMessage('Check your email to confirm your account.');
+      } else if (mode === 'forgotPassword') {
+        setMessage('If an account exists for this email, a password reset link is on its way.');
+      } else if (mode === 'magicLink') {
+        setMessage('Check your email for a sign-in link.');
       }
-    } catch (err) {
+    } catch {
       setError('An unexpected error occurred');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleOAuth = async (provider: 'google' | 'github') => {
+    setError('');
+    setMessage('');
+
+    const { error } = await signInWithOAuth(provider);
+
+    if (error) {
+      setError(error.message);
+    }
+  };
+
+  const needsPassword = mode === 'signIn' || mode === 'signUp';
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -46,7 +99,7 @@ export function AuthForm() {
             Finance Tracker
           </h1>
           <p className="text-center text-slate-600 dark:text-slate-400 mb-8">
-            {isSignUp ? 'Create your account' : 'Welcome back'}
+            {subtitles[mode]}
           </p>
 
           {error && (
@@ -56,8 +109,15 @@ export function AuthForm() {
             </div>
           )}
 
+          {message && (
+            <div className="mb-6 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg flex items-start gap-3">
+              <CheckCircle className="w-5 h-5 text-green-600 dark:text-green-400 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-green-700 dark:text-green-300">{message}</p>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-4">
-            {isSignUp && (
+            {mode === 'signUp' && (
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
                   Full Name
@@ -93,49 +153,110 @@ export function AuthForm() {
               </div>
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                Password
-              </label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                <input
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full pl-10 pr-4 py-3 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
-                  placeholder="••••••••"
-                  required
-                  minLength={6}
-                />
+            {needsPassword && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                    Password
+                  </label>
+                  {mode === 'signIn' && (
+                    <button
+                      type="button"
+                      onClick={() => switchMode('forgotPassword')}
+                      className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Forgot password?
+                    </button>
+                  )}
+                </div>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full pl-10 pr-4 py-3 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                    placeholder="••••••••"
+                    required
+                    minLength={6}
+                  />
+                </div>
               </div>
-            </div>
+            )}
 
             <button
               type="submit"
               disabled={loading}
               className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {loading ? 'Please wait...' : isSignUp ? 'Sign Up' : 'Sign In'}
+              {loading ? 'Please wait...' : submitLabels[mode]}
             </button>
           </form>
 
+          {needsPassword && (
+            <>
+              <div className="flex items-center gap-3 my-6">
+                <div className="flex-1 h-px bg-slate-200 dark:bg-slate-700" />
+                <span className="text-xs text-slate-500 dark:text-slate-400">or continue with</span>
+                <div className="flex-1 h-px bg-slate-200 dark:bg-slate-700" />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  type="button"
+                  onClick={() => handleOAuth('google')}
+                  className="flex items-center justify-center gap-2 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-600 transition-colors"
+                >
+                  <span className="font-bold text-blue-600 dark:text-blue-400">G</span>
+                  <span>Google</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleOAuth('github')}
+                  className="flex items-center justify-center gap-2 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-600 transition-colors"
+                >
+                  <Github className="w-4 h-4" />
+                  <span>GitHub</span>
+                </button>
+              </div>
+
+              {mode === 'signIn' && (
+                <button
+                  type="button"
+                  onClick={() => switchMode('magicLink')}
+                  className="w-full mt-3 flex items-center justify-center gap-2 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-600 transition-colors"
+                >
+                  <Sparkles className="w-4 h-4" />
+                  <span>Email me a magic link</span>
+                </button>
+              )}
+            </>
+          )}
+
           <div className="mt-6 text-center">
-            <button
-              type="button"
-              onClick={() => {
-                setIsSignUp(!isSignUp);
-                setError('');
-              }}
-              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
-            >
-              {isSignUp
-                ? 'Already have an account? Sign in'
-                : "Don't have an account? Sign up"}
-            </button>
+            {needsPassword ? (
+              <button
+                type="button"
+                onClick={() => switchMode(mode === 'signUp' ? 'signIn' : 'signUp')}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {mode === 'signUp'
+                  ? 'Already have an account? Sign in'
+                  : "Don't have an account? Sign up"}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => switchMode('signIn')}
+                className="inline-flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back to sign in
+              </button>
+            )}
           </div>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
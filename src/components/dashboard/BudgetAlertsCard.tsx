@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { PieChart } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCurrency } from '../../contexts/CurrencyContext';
+
+interface BudgetAlertsCardProps {
+  onNavigate: (page: string) => void;
+}
+
+interface RecentAlert {
+  id: string;
+  threshold: number;
+  spent: number;
+  available: number;
+  created_at: string;
+  budget: {
+    category: { name: string; color: string } | null;
+  } | null;
+}
+
+// Alerts older than this have dropped off the dashboard; the budget page keeps the full history
+const RECENT_DAYS = 30;
+
+export function BudgetAlertsCard({ onNavigate }: BudgetAlertsCardProps) {
+  const { user } = useAuth();
+  const { formatCurrency, formatDate } = useCurrency();
+  const [alerts, setAlerts] = useState<RecentAlert[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      loadAlerts();
+    }
+  }, [user]);
+
+  const loadAlerts = async () => {
+    if (!user) return;
+
+    const since = new Date();
+    since.setDate(since.getDate() - RECENT_DAYS);
+
+    const { data } = await supabase
+      .from('budget_alerts')
+      .select(`
+        id,
+        threshold,
+        spent,
+        available,
+        created_at,
+        budget:budgets (
+          category:categories (name, color)
+        )
+      `)
+      .eq('user_id', user.id)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: false })
+      .limit(5);
+
+    if (data) {
+      setAlerts(data as unknown as RecentAlert[]);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Budget Alerts</h3>
+        <button
+          onClick={() => onNavigate('budget')}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          View Budgets
+        </button>
+      </div>
+
+      {alerts.length === 0 ? (
+        <p className="text-center text-slate-500 dark:text-slate-400 py-8">
+          No budget alerts in the last {RECENT_DAYS} days.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {alerts.map((alert) => {
+            const over = alert.threshold >= 100;
+
+            return (
+              <div key={alert.id} className="flex items-center gap-4 p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+                <div
+                  className={`p-2 rounded-lg ${
+                    over
+                      ? 'bg-red-100 dark:bg-red-900/20 text-red-600 dark:text-red-400'
+                      : 'bg-amber-100 dark:bg-amber-900/20 text-amber-600 dark:text-amber-400'
+                  }`}
+                >
+                  <PieChart className="w-5 h-5" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-slate-900 dark:text-white truncate">
+                    {alert.budget?.category?.name ?? 'Budget'} passed {alert.threshold}%
+                  </p>
+                  <p className="text-sm text-slate-500 dark:text-slate-400">
+                    {formatCurrency(alert.spent)} of {formatCurrency(alert.available)}
+                  </p>
+                </div>
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                  {formatDate(alert.created_at, { month: 'short', day: 'numeric' })}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { availableFor, budgetLevel, loadBudgetsForMonth, usedPercentage, type BudgetLevel } from '../../lib/budgets';
+
+interface BudgetHealthCardProps {
+  onNavigate: (page: string) => void;
+}
+
+interface BudgetHealth {
+  id: string;
+  name: string;
+  spent: number;
+  available: number;
+  percentage: number;
+  level: BudgetLevel;
+}
+
+export function BudgetHealthCard({ onNavigate }: BudgetHealthCardProps) {
+  const { user } = useAuth();
+  const { formatCurrency } = useCurrency();
+  const [budgets, setBudgets] = useState<BudgetHealth[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      loadHealth();
+    }
+  }, [user]);
+
+  const loadHealth = async () => {
+    if (!user) return;
+
+    const now = new Date();
+    const { budgets: budgetData } = await loadBudgetsForMonth(user.id, now.getMonth() + 1, now.getFullYear());
+
+    setBudgets(
+      budgetData.map((budget) => {
+        const percentage = usedPercentage(budget);
+        return {
+          id: budget.id,
+          name: budget.category?.name ?? 'Budget',
+          spent: budget.spent,
+          available: availableFor(budget),
+          percentage,
+          level: budgetLevel(percentage, budget.alert_thresholds),
+        };
+      })
+    );
+  };
+
+  const over = budgets.filter((budget) => budget.level === 'over').length;
+  const nearLimit = budgets.filter((budget) => budget.level === 'warning').length;
+  const onTrack = budgets.length - over - nearLimit;
+  // The budgets closest to (or furthest past) their limit
+  const shown = [...budgets].sort((a, b) => b.percentage - a.percentage).slice(0, 3);
+
+  const getProgressColor = (level: BudgetLevel) => {
+    if (level === 'over') return 'bg-red-600';
+    if (level === 'warning') return 'bg-amber-600';
+    return 'bg-green-600';
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Budget Health</h3>
+        <button onClick={() => onNavigate('budget')} className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          View Budgets
+        </button>
+      </div>
+
+      {budgets.length === 0 ? (
+        <p className="text-center text-slate-500 dark:text-slate-400 py-8">
+          No budgets for this month. Set one up to see how your spending is tracking.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3 mb-6">
+            <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-center">
+              <p className="text-2xl font-bold text-green-600 dark:text-green-400">{onTrack}</p>
+              <p className="text-xs text-slate-600 dark:text-slate-400">On track</p>
+            </div>
+            <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-center">
+              <p className="text-2xl font-bold text-amber-600 dark:text-amber-400">{nearLimit}</p>
+              <p className="text-xs text-slate-600 dark:text-slate-400">Near limit</p>
+            </div>
+            <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-center">
+              <p className="text-2xl font-bold text-red-600 dark:text-red-400">{over}</p>
+              <p className="text-xs text-slate-600 dark:text-slate-400">Over budget</p>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {shown.map((budget) => (
+              <div key={budget.id}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="font-medium text-slate-900 dark:text-white">{budget.name}</span>
+                  <span className="text-slate-600 dark:text-slate-400">
+                    {formatCurrency(budget.spent)} of {formatCurrency(budget.available)}
+                  </span>
+                </div>
+                <div className="h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${getProgressColor(budget.level)} transition-all duration-500`}
+                    style={{ width: `${Math.min(100, budget.percentage)}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
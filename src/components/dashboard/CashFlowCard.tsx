@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { loadTransactionTotals, sumTotals, totalsByPeriod } from '../../lib/reports';
+
+interface CashFlowDay {
+  date: string;
+  // Income minus expenses from the start of the range up to and including this day
+  net: number;
+}
+
+const DAYS = 30;
+
+export function CashFlowCard() {
+  const { user } = useAuth();
+  const { formatCurrency, formatDate } = useCurrency();
+  const [days, setDays] = useState<CashFlowDay[]>([]);
+  const [moneyIn, setMoneyIn] = useState(0);
+  const [moneyOut, setMoneyOut] = useState(0);
+
+  useEffect(() => {
+    if (user) {
+      loadCashFlow();
+    }
+  }, [user]);
+
+  const loadCashFlow = async () => {
+    if (!user) return;
+
+    const dates = Array.from({ length: DAYS }, (_, index) => {
+      const date = new Date();
+      date.setDate(date.getDate() - (DAYS - 1 - index));
+      return date.toISOString().split('T')[0];
+    });
+
+    const totals = await loadTransactionTotals(dates[0], dates[DAYS - 1], 'day');
+    const byDay = totalsByPeriod(totals);
+    const { income, expenses } = sumTotals(totals);
+
+    let running = 0;
+    setDays(
+      dates.map((date) => {
+        running += byDay[date]?.savings ?? 0;
+        return { date, net: running };
+      })
+    );
+    setMoneyIn(income);
+    setMoneyOut(expenses);
+  };
+
+  const values = days.map((day) => day.net);
+  // Zero is always in range so the baseline can be drawn
+  const max = Math.max(...values, 0);
+  const min = Math.min(...values, 0);
+  const span = max - min || 1;
+  const y = (value: number) => 40 - ((value - min) / span) * 40;
+  const points = days.map((day, index) => `${(index / (DAYS - 1)) * 100},${y(day.net)}`).join(' ');
+  const net = moneyIn - moneyOut;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Cash Flow</h3>
+        <span className="text-sm text-slate-500 dark:text-slate-400">Last {DAYS} days</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-6">
+        <div>
+          <p className="text-sm text-slate-600 dark:text-slate-400">Money in</p>
+          <p className="text-xl font-bold text-green-600 dark:text-green-400">{formatCurrency(moneyIn)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-slate-600 dark:text-slate-400">Money out</p>
+          <p className="text-xl font-bold text-red-600 dark:text-red-400">{formatCurrency(moneyOut)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-slate-600 dark:text-slate-400">Net</p>
+          <p
+            className={`text-xl font-bold ${
+              net < 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-900 dark:text-white'
+            }`}
+          >
+            {formatCurrency(net)}
+          </p>
+        </div>
+      </div>
+
+      {days.length > 0 && (
+        <>
+          <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-24">
+            <line
+              x1="0"
+              x2="100"
+              y1={y(0)}
+              y2={y(0)}
+              className="stroke-slate-200 dark:stroke-slate-700"
+              strokeWidth="1"
+              vectorEffect="non-scaling-stroke"
+            />
+            <polyline
+              points={points}
+              fill="none"
+              className={net < 0 ? 'stroke-red-500' : 'stroke-green-500'}
+              strokeWidth="2"
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+          <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 mt-2">
+            <span>{formatDate(days[0].date, { month: 'short', day: 'numeric' })}</span>
+            <span>{formatDate(days[DAYS - 1].date, { month: 'short', day: 'numeric' })}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
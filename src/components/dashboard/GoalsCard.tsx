@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { goalProgress, goalStatuses, loadGoals, savedByGoal, type Goal, type GoalProgress } from '../../lib/goals';
+
+interface GoalsCardProps {
+  onNavigate: (page: string) => void;
+}
+
+interface GoalSummary {
+  goal: Goal;
+  progress: GoalProgress;
+}
+
+export function GoalsCard({ onNavigate }: GoalsCardProps) {
+  const { user } = useAuth();
+  const { formatCurrency, formatDate } = useCurrency();
+  const [summaries, setSummaries] = useState<GoalSummary[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      loadSummaries();
+    }
+  }, [user]);
+
+  const loadSummaries = async () => {
+    if (!user) return;
+
+    const { goals, contributions } = await loadGoals(user.id);
+    const saved = savedByGoal(contributions);
+
+    setSummaries(
+      goals
+        .filter((goal) => !goal.is_archived)
+        .map((goal) => ({ goal, progress: goalProgress(goal, saved[goal.id] || 0) }))
+    );
+  };
+
+  const counts = summaries.reduce<Partial<Record<keyof typeof goalStatuses, number>>>((acc, { progress }) => {
+    acc[progress.status] = (acc[progress.status] || 0) + 1;
+    return acc;
+  }, {});
+
+  // Goals that need attention first, then the rest by how close they are to done
+  const attention = { overdue: 0, behind: 1, on_track: 2, no_date: 3, completed: 4 };
+  const shown = [...summaries]
+    .sort(
+      (a, b) =>
+        attention[a.progress.status] - attention[b.progress.status] || b.progress.percentage - a.progress.percentage
+    )
+    .slice(0, 3);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Savings Goals</h3>
+        <button onClick={() => onNavigate('goals')} className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          View All
+        </button>
+      </div>
+
+      {summaries.length === 0 ? (
+        <p className="text-center text-slate-500 dark:text-slate-400 py-8">
+          No savings goals yet. Set one up to track what you're saving for.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {(Object.keys(goalStatuses) as (keyof typeof goalStatuses)[])
+              .filter((status) => counts[status])
+              .map((status) => (
+                <span
+                  key={status}
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium ${goalStatuses[status].className}`}
+                >
+                  {counts[status]} {goalStatuses[status].label.toLowerCase()}
+                </span>
+              ))}
+          </div>
+
+          <div className="space-y-4">
+            {shown.map(({ goal, progress }) => (
+              <div key={goal.id}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="font-medium text-slate-900 dark:text-white">{goal.name}</span>
+                  <span className="text-slate-600 dark:text-slate-400">
+                    {formatCurrency(progress.saved)} of {formatCurrency(Number(goal.target_amount))}
+                  </span>
+                </div>
+                <div className="h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full transition-all duration-500"
+                    style={{ width: `${progress.percentage}%`, backgroundColor: goal.color }}
+                  />
+                </div>
+                {progress.monthlyNeeded !== null && goal.target_date && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                    {formatCurrency(progress.monthlyNeeded)}/month to reach it by {formatDate(goal.target_date)}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { TrendingUp, TrendingDown, Wallet, PiggyBank } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { monthRange, previousMonth } from '../../lib/budgets';
+import { loadTransactionTotals, sumTotals, type Totals } from '../../lib/reports';
+
+interface Comparison {
+  label: string;
+  totals: Totals;
+}
+
+export function MonthSummaryCard() {
+  const { user } = useAuth();
+  const { formatCurrency, formatDate } = useCurrency();
+  const [totals, setTotals] = useState<Totals>({ income: 0, expenses: 0, savings: 0 });
+  const [comparisons, setComparisons] = useState<Comparison[]>([]);
+
+  const now = new Date();
+  const [selectedMonth, setSelectedMonth] = useState(now.getMonth() + 1);
+  const [selectedYear, setSelectedYear] = useState(now.getFullYear());
+  // The current month is compared month to date, so a half-finished month isn't measured against a full one
+  const isCurrentMonth = selectedMonth === now.getMonth() + 1 && selectedYear === now.getFullYear();
+
+  useEffect(() => {
+    if (user) {
+      loadTotals();
+    }
+  }, [user, selectedMonth, selectedYear]);
+
+  const monthLabel = (month: number, year: number) =>
+    formatDate(`${monthRange(month, year).firstDay}T00:00:00`, { month: 'short', year: 'numeric' });
+
+  const loadMonth = async (month: number, year: number): Promise<Comparison> => {
+    const { firstDay, lastDay } = monthRange(month, year);
+    const dayOfMonth = `${firstDay.slice(0, 8)}${String(now.getDate()).padStart(2, '0')}`;
+    const end = isCurrentMonth && dayOfMonth < lastDay ? dayOfMonth : lastDay;
+
+    return { label: monthLabel(month, year), totals: sumTotals(await loadTransactionTotals(firstDay, end)) };
+  };
+
+  const loadTotals = async () => {
+    if (!user) return;
+
+    const previous = previousMonth(selectedMonth, selectedYear);
+    const [current, ...earlier] = await Promise.all([
+      loadMonth(selectedMonth, selectedYear),
+      loadMonth(previous.month, previous.year),
+      loadMonth(selectedMonth, selectedYear - 1),
+    ]);
+
+    setTotals(current.totals);
+    setComparisons(earlier);
+  };
+
+  // Savings can be negative, so changes are measured against the size of the earlier amount
+  const percentChange = (current: number, earlier: number) =>
+    earlier === 0 ? null : ((current - earlier) / Math.abs(earlier)) * 100;
+
+  const renderChanges = (key: keyof Totals, higherIsBetter: boolean) => (
+    <div className="flex flex-col gap-1 mt-3">
+      {comparisons.map((comparison) => {
+        const change = percentChange(totals[key], comparison.totals[key]);
+        const Icon = change !== null && change < 0 ? TrendingDown : TrendingUp;
+        const favorable = change !== null && change !== 0 && change > 0 === higherIsBetter;
+
+        return (
+          <div key={comparison.label} className="flex items-center gap-2 text-sm">
+            {change === null ? (
+              <span className="opacity-80">No {key} in {comparison.label}</span>
+            ) : (
+              <>
+                <span
+                  className={`flex items-center gap-1 px-2 py-0.5 rounded-full bg-white text-xs font-semibold ${
+                    change === 0 ? 'text-slate-600' : favorable ? 'text-green-700' : 'text-red-700'
+                  }`}
+                >
+                  <Icon className="w-3 h-3" />
+                  {change > 0 ? '+' : change < 0 ? '−' : ''}
+                  {Math.abs(change).toFixed(1)}%
+                </span>
+                <span className="opacity-90">vs {comparison.label}</span>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const monthOptions = Array.from({ length: 12 }, (_, index) => ({
+    value: index + 1,
+    label: formatDate(`${monthRange(index + 1, 2000).firstDay}T00:00:00`, { month: 'long' }),
+  }));
+  const yearOptions = Array.from({ length: 4 }, (_, index) => now.getFullYear() - 3 + index);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+        <div className="flex items-center gap-3">
+          <select
+            value={selectedMonth}
+            onChange={(e) => setSelectedMonth(Number(e.target.value))}
+            className="px-4 py-2.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+          >
+            {monthOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={selectedYear}
+            onChange={(e) => setSelectedYear(Number(e.target.value))}
+            className="px-4 py-2.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+          >
+            {yearOptions.map((year) => (
+              <option key={year} value={year}>
+                {year}
+              </option>
+            ))}
+          </select>
+        </div>
+        {isCurrentMonth && (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Compared month to date, through day {now.getDate()} of each month
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-gradient-to-br from-green-500 to-emerald-600 rounded-2xl p-6 text-white shadow-lg hover:shadow-xl transition-shadow">
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="text-green-100 text-sm font-medium">Total Income</p>
+              <h3 className="text-3xl font-bold mt-2">{formatCurrency(totals.income)}</h3>
+              {renderChanges('income', true)}
+            </div>
+            <div className="bg-white/20 p-3 rounded-xl">
+              <TrendingUp className="w-6 h-6" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-red-500 to-pink-600 rounded-2xl p-6 text-white shadow-lg hover:shadow-xl transition-shadow">
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="text-red-100 text-sm font-medium">Total Expenses</p>
+              <h3 className="text-3xl font-bold mt-2">{formatCurrency(totals.expenses)}</h3>
+              {renderChanges('expenses', false)}
+            </div>
+            <div className="bg-white/20 p-3 rounded-xl">
+              <TrendingDown className="w-6 h-6" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-blue-500 to-cyan-600 rounded-2xl p-6 text-white shadow-lg hover:shadow-xl transition-shadow">
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="text-blue-100 text-sm font-medium">Total Savings</p>
+              <h3 className="text-3xl font-bold mt-2">{formatCurrency(totals.savings)}</h3>
+              <div className="flex items-center gap-1 mt-3">
+                <PiggyBank className="w-4 h-4" />
+                <span className="text-sm">
+                  {totals.income > 0 ? `${((totals.savings / totals.income) * 100).toFixed(1)}% saved` : 'No income yet'}
+                </span>
+              </div>
+              {renderChanges('savings', true)}
+            </div>
+            <div className="bg-white/20 p-3 rounded-xl">
+              <Wallet className="w-6 h-6" />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
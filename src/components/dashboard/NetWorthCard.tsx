@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { getAccountType, loadAccountBalances, type Account, type AccountBalance } from '../../lib/accounts';
+
+interface NetWorthCardProps {
+  onNavigate: (page: string) => void;
+}
+
+export function NetWorthCard({ onNavigate }: NetWorthCardProps) {
+  const { user } = useAuth();
+  const { formatCurrency } = useCurrency();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [balances, setBalances] = useState<Record<string, AccountBalance>>({});
+
+  useEffect(() => {
+    if (user) {
+      loadAccounts();
+    }
+  }, [user]);
+
+  const loadAccounts = async () => {
+    if (!user) return;
+
+    const [{ data: accountData }, balanceData] = await Promise.all([
+      supabase.from('accounts').select('*').eq('user_id', user.id).order('created_at'),
+      loadAccountBalances(),
+    ]);
+
+    if (accountData) {
+      setAccounts(accountData);
+    }
+
+    setBalances(balanceData);
+  };
+
+  // Archived accounts still count towards net worth, the same as on the accounts page
+  const netWorth = accounts.reduce((sum, account) => sum + (balances[account.id]?.balance ?? 0), 0);
+  const activeAccounts = accounts.filter((account) => !account.is_archived);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Net Worth</h3>
+        <button onClick={() => onNavigate('accounts')} className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          View Accounts
+        </button>
+      </div>
+
+      {accounts.length === 0 ? (
+        <p className="text-center text-slate-500 dark:text-slate-400 py-8">
+          No accounts yet. Add your accounts to see your net worth.
+        </p>
+      ) : (
+        <>
+          <p
+            className={`text-3xl font-bold mb-4 ${
+              netWorth < 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-900 dark:text-white'
+            }`}
+          >
+            {formatCurrency(netWorth)}
+          </p>
+
+          <div className="space-y-3">
+            {activeAccounts.map((account) => {
+              const Icon = getAccountType(account.type).icon;
+              const balance = balances[account.id]?.balance ?? 0;
+
+              return (
+                <div key={account.id} className="flex items-center gap-3 text-sm">
+                  <Icon className="w-4 h-4 text-slate-500 dark:text-slate-400" />
+                  <span className="flex-1 truncate text-slate-700 dark:text-slate-300">{account.name}</span>
+                  <span
+                    className={`font-medium ${
+                      balance < 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-900 dark:text-white'
+                    }`}
+                  >
+                    {formatCurrency(balance)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
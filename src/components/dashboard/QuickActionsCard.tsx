@@ -0,0 +1,53 @@
+import { ArrowUpRight, ArrowDownRight, Wallet, PiggyBank } from 'lucide-react';
+
+interface QuickActionsCardProps {
+  onNavigate: (page: string) => void;
+}
+
+export function QuickActionsCard({ onNavigate }: QuickActionsCardProps) {
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Quick Actions</h3>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <button
+          onClick={() => onNavigate('transactions')}
+          className="p-4 bg-green-50 dark:bg-green-900/20 hover:bg-green-100 dark:hover:bg-green-900/30 border border-green-200 dark:border-green-800 rounded-xl transition-colors text-left"
+        >
+          <ArrowUpRight className="w-6 h-6 text-green-600 dark:text-green-400 mb-2" />
+          <p className="font-medium text-slate-900 dark:text-white">Add Income</p>
+          <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">Record earnings</p>
+        </button>
+
+        <button
+          onClick={() => onNavigate('transactions')}
+          className="p-4 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-xl transition-colors text-left"
+        >
+          <ArrowDownRight className="w-6 h-6 text-red-600 dark:text-red-400 mb-2" />
+          <p className="font-medium text-slate-900 dark:text-white">Add Expense</p>
+          <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">Track spending</p>
+        </button>
+
+        <button
+          onClick={() => onNavigate('budget')}
+          className="p-4 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30 border border-blue-200 dark:border-blue-800 rounded-xl transition-colors text-left"
+        >
+          <Wallet className="w-6 h-6 text-blue-600 dark:text-blue-400 mb-2" />
+          <p className="font-medium text-slate-900 dark:text-white">Set Budget</p>
+          <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">Plan spending</p>
+        </button>
+
+        <button
+          onClick={() => onNavigate('analytics')}
+          className="p-4 bg-purple-50 dark:bg-purple-900/20 hover:bg-purple-100 dark:hover:bg-purple-900/30 border border-purple-200 dark:border-purple-800 rounded-xl transition-colors text-left"
+        >
+          <PiggyBank className="w-6 h-6 text-purple-600 dark:text-purple-400 mb-2" />
+          <p className="font-medium text-slate-900 dark:text-white">View Reports</p>
+          <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">Analyze trends</p>
+        </button>
+      </div>
+    </div>
+  );
+}
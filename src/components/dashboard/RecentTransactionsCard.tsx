@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { getCategoryIcon } from '../../lib/categoryIcons';
+
+interface RecentTransactionsCardProps {
+  onNavigate: (page: string) => void;
+}
+
+interface RecentTransaction {
+  id: string;
+  amount: number;
+  currency: string;
+  type: 'income' | 'expense' | 'transfer';
+  description: string;
+  date: string;
+  category: { name: string; icon: string; color: string } | null;
+}
+
+export function RecentTransactionsCard({ onNavigate }: RecentTransactionsCardProps) {
+  const { user } = useAuth();
+  const { formatCurrency, formatDate } = useCurrency();
+  const [transactions, setTransactions] = useState<RecentTransaction[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      loadTransactions();
+    }
+  }, [user]);
+
+  const loadTransactions = async () => {
+    if (!user) return;
+
+    const { data } = await supabase
+      .from('transactions')
+      .select(`
+        id,
+        amount,
+        currency,
+        type,
+        description,
+        date,
+        category:categories (name, icon, color)
+      `)
+      .eq('user_id', user.id)
+      .order('date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(5);
+
+    if (data) {
+      setTransactions(data);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Recent Transactions</h3>
+        <button
+          onClick={() => onNavigate('transactions')}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          View All
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {transactions.length === 0 ? (
+          <p className="text-center text-slate-500 dark:text-slate-400 py-8">
+            No transactions yet. Add your first transaction to get started!
+          </p>
+        ) : (
+          transactions.map((transaction) => {
+            const color = transaction.category?.color || '#6366f1';
+            const Icon = getCategoryIcon(transaction.category?.icon || 'circle');
+            const categoryName =
+              transaction.type === 'transfer' ? 'Transfer' : transaction.category?.name || 'Uncategorized';
+
+            return (
+              <div
+                key={transaction.id}
+                className="flex items-center gap-4 p-3 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-lg transition-colors"
+              >
+                <div className="p-2 rounded-lg" style={{ backgroundColor: `${color}20` }}>
+                  <div className="w-6 h-6" style={{ color }}>
+                    <Icon className="w-full h-full" />
+                  </div>
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-slate-900 dark:text-white truncate">
+                    {transaction.description || categoryName}
+                  </p>
+                  <p className="text-sm text-slate-500 dark:text-slate-400">
+                    {formatDate(transaction.date, { month: 'short', day: 'numeric' })}
+                  </p>
+                </div>
+
+                <div className="text-right">
+                  <p
+                    className={`font-semibold ${
+                      transaction.type === 'income'
+                        ? 'text-green-600 dark:text-green-400'
+                        : transaction.type === 'expense'
+                        ? 'text-red-600 dark:text-red-400'
+                        : 'text-slate-900 dark:text-white'
+                    }`}
+                  >
+                    {transaction.type === 'income' ? '+' : transaction.type === 'expense' ? '-' : ''}
+                    {formatCurrency(Number(transaction.amount), transaction.currency)}
+                  </p>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { monthRange } from '../../lib/budgets';
+import { getCategoryIcon } from '../../lib/categoryIcons';
+import { loadTransactionTotals, totalsByCategory, type CategoryTotal } from '../../lib/reports';
+
+interface TopCategoriesCardProps {
+  onNavigate: (page: string) => void;
+}
+
+export function TopCategoriesCard({ onNavigate }: TopCategoriesCardProps) {
+  const { user } = useAuth();
+  const { formatCurrency } = useCurrency();
+  const [categories, setCategories] = useState<CategoryTotal[]>([]);
+  const [total, setTotal] = useState(0);
+
+  useEffect(() => {
+    if (user) {
+      loadSpending();
+    }
+  }, [user]);
+
+  const loadSpending = async () => {
+    if (!user) return;
+
+    const now = new Date();
+    const { firstDay, lastDay } = monthRange(now.getMonth() + 1, now.getFullYear());
+
+    const sorted = totalsByCategory(await loadTransactionTotals(firstDay, lastDay));
+    setCategories(sorted.slice(0, 5));
+    setTotal(sorted.reduce((sum, category) => sum + category.amount, 0));
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Top Categories</h3>
+        <button
+          onClick={() => onNavigate('analytics')}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          View Analytics
+        </button>
+      </div>
+
+      {categories.length === 0 ? (
+        <p className="text-center text-slate-500 dark:text-slate-400 py-8">No spending recorded this month yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {categories.map((category) => {
+            const Icon = getCategoryIcon(category.icon);
+            const share = total > 0 ? (category.amount / total) * 100 : 0;
+
+            return (
+              <div key={category.categoryId ?? 'uncategorized'} className="flex items-center gap-3">
+                <div className="p-2 rounded-lg" style={{ backgroundColor: `${category.color}20`, color: category.color }}>
+                  <Icon className="w-5 h-5" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="font-medium text-slate-900 dark:text-white truncate">{category.name}</span>
+                    <span className="text-slate-600 dark:text-slate-400">{formatCurrency(category.amount)}</span>
+                  </div>
+                  <div className="h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full transition-all duration-500"
+                      style={{ width: `${share}%`, backgroundColor: category.color }}
+                    />
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
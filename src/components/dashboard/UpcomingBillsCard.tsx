@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { Bell } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { getBillPeriod, type BillPeriod, type BillReminder } from '../../lib/bills';
+
+interface UpcomingBillsCardProps {
+  onNavigate: (page: string) => void;
+}
+
+interface UpcomingBill {
+  reminder: BillReminder;
+  period: BillPeriod;
+}
+
+export function UpcomingBillsCard({ onNavigate }: UpcomingBillsCardProps) {
+  const { user } = useAuth();
+  const { formatCurrency, formatDate } = useCurrency();
+  const [bills, setBills] = useState<UpcomingBill[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      loadBills();
+    }
+  }, [user]);
+
+  const loadBills = async () => {
+    if (!user) return;
+
+    const [{ data: reminders }, { data: payments }] = await Promise.all([
+      supabase.from('bill_reminders').select('*').eq('user_id', user.id).eq('is_active', true),
+      supabase.from('bill_payments').select('*').eq('user_id', user.id),
+    ]);
+
+    // Overdue bills sort first since their due dates are the earliest
+    setBills(
+      (reminders ?? [])
+        .map((reminder) => ({ reminder, period: getBillPeriod(reminder, payments ?? []) }))
+        .filter(({ period }) => period.status !== 'paid')
+        .sort((a, b) => a.period.dueOn.localeCompare(b.period.dueOn))
+        .slice(0, 5)
+    );
+  };
+
+  const describeDue = ({ status, daysUntil, dueOn }: BillPeriod) => {
+    if (status === 'overdue') return `Overdue by ${-daysUntil} day${daysUntil === -1 ? '' : 's'}`;
+    if (status === 'due-today') return 'Due today';
+    if (daysUntil <= 7) return `Due in ${daysUntil} day${daysUntil === 1 ? '' : 's'}`;
+    return `Due on ${formatDate(dueOn, { month: 'short', day: 'numeric' })}`;
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Upcoming Bills</h3>
+        <button
+          onClick={() => onNavigate('reminders')}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          View Bills
+        </button>
+      </div>
+
+      {bills.length === 0 ? (
+        <p className="text-center text-slate-500 dark:text-slate-400 py-8">Nothing due. All your bills are paid.</p>
+      ) : (
+        <div className="space-y-3">
+          {bills.map(({ reminder, period }) => {
+            const urgent = period.status === 'overdue' || period.status === 'due-today';
+
+            return (
+              <div key={reminder.id} className="flex items-center gap-4 p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+                <div
+                  className={`p-2 rounded-lg ${
+                    urgent
+                      ? 'bg-red-100 dark:bg-red-900/20 text-red-600 dark:text-red-400'
+                      : 'bg-blue-100 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400'
+                  }`}
+                >
+                  <Bell className="w-5 h-5" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-slate-900 dark:text-white truncate">{reminder.title}</p>
+                  <p
+                    className={`text-sm ${
+                      urgent ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'
+                    }`}
+                  >
+                    {describeDue(period)}
+                  </p>
+                </div>
+                <p className="font-semibold text-slate-900 dark:text-white">
+                  {formatCurrency(Number(reminder.amount))}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download, FileSpreadsheet, FileJson, Printer } from 'lucide-react';
+import type { ExportFormat } from '../../lib/export';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+}
+
+const options: { format: ExportFormat; label: string; icon: typeof Download }[] = [
+  { format: 'csv', label: 'CSV spreadsheet', icon: FileSpreadsheet },
+  { format: 'json', label: 'JSON backup', icon: FileJson },
+  { format: 'pdf', label: 'Printable statement (PDF)', icon: Printer },
+];
+
+export function ExportMenu({ onExport, disabled = false }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        className="flex items-center gap-2 px-4 py-2.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Download className="w-5 h-5" />
+        <span>Export</span>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-60 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-lg z-40 py-1">
+          {options.map(({ format, label, icon: Icon }) => (
+            <button
+              key={format}
+              onClick={() => {
+                setOpen(false);
+                onExport(format);
+              }}
+              className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+            >
+              <Icon className="w-4 h-4" />
+              <span>{label}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,21 @@
-import { Bell, Search } from 'lucide-react';
+import { Search } from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
+import { NotificationPanel } from './NotificationPanel';
 
 interface HeaderProps {
   title: string;
+  onNavigate: (page: string) => void;
 }
 
-export function Header({ title }: HeaderProps) {
+export function Header({ title, onNavigate }: HeaderProps) {
   const { user } = useAuth();
   const [userName, setUserName] = useState('');
-  const [notifications, setNotifications] = useState(0);
 
   useEffect(() => {
     if (user) {
       loadUserData();
-      loadNotifications();
     }
   }, [user]);
 
@@ -33,25 +33,6 @@ export function Header({ title }: HeaderProps) {
     }
   };
 
-  const loadNotifications = async () => {
-    if (!user) return;
-
-    const today = new Date().getDate();
-    const { data } = await supabase
-      .from('bill_reminders')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('is_active', true);
-
-    if (data) {
-      const upcoming = data.filter((bill) => {
-        const daysUntil = bill.due_date - today;
-        return daysUntil >= 0 && daysUntil <= 3;
-      });
-      setNotifications(upcoming.length);
-    }
-  };
-
   return (
     <header className="bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 px-8 py-4">
       <div className="flex items-center justify-between">
@@ -72,14 +53,7 @@ export function Header({ title }: HeaderProps) {
             />
           </div>
 
-          <button className="relative p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors">
-            <Bell className="w-6 h-6 text-slate-700 dark:text-slate-300" />
-            {notifications > 0 && (
-              <span className="absolute top-0 right-0 bg-red-600 text-white text-xs w-5 h-5 rounded-full flex items-center justify-center font-medium">
-                {notifications}
-              </span>
-            )}
-          </button>
+          <NotificationPanel onNavigate={onNavigate} />
         </div>
       </div>
     </header>
@@ -0,0 +1,213 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Bell, CalendarClock, Clock, PieChart, TrendingUp, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import {
+  dismissNotification,
+  loadNotifications,
+  markNotificationsRead,
+  snoozeNotification,
+  syncNotifications,
+  type AppNotification,
+  type NotificationKind,
+} from '../../lib/notifications';
+
+interface NotificationPanelProps {
+  onNavigate: (page: string) => void;
+}
+
+const kindStyles: Record<NotificationKind, { icon: typeof Bell; className: string }> = {
+  bill_due: { icon: CalendarClock, className: 'bg-amber-100 dark:bg-amber-900/20 text-amber-600 dark:text-amber-400' },
+  bill_overdue: { icon: AlertCircle, className: 'bg-red-100 dark:bg-red-900/20 text-red-600 dark:text-red-400' },
+  budget_exceeded: { icon: PieChart, className: 'bg-red-100 dark:bg-red-900/20 text-red-600 dark:text-red-400' },
+  budget_threshold: { icon: PieChart, className: 'bg-amber-100 dark:bg-amber-900/20 text-amber-600 dark:text-amber-400' },
+  large_transaction: { icon: TrendingUp, className: 'bg-blue-100 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400' },
+};
+
+const snoozeOptions = [
+  { label: '1 day', days: 1 },
+  { label: '1 week', days: 7 },
+];
+
+export function NotificationPanel({ onNavigate }: NotificationPanelProps) {
+  const { user } = useAuth();
+  const { formatCurrency, formatDate } = useCurrency();
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (user) {
+      syncNotifications(user.id).then(refresh);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const refresh = async () => {
+    if (!user) return;
+    setNotifications(await loadNotifications(user.id));
+  };
+
+  const unread = notifications.filter((notification) => !notification.read_at);
+
+  const describe = (notification: AppNotification) => {
+    const amount = notification.amount !== null ? formatCurrency(notification.amount) : '';
+    const date = notification.event_date ? formatDate(notification.event_date) : '';
+
+    switch (notification.kind) {
+      case 'bill_due':
+        return { heading: `${notification.title} is due soon`, detail: `${amount} due ${date}` };
+      case 'bill_overdue':
+        return { heading: `${notification.title} is overdue`, detail: `${amount} was due ${date}` };
+      case 'budget_exceeded':
+        return { heading: `${notification.title} budget exceeded`, detail: `${amount} spent this month` };
+      case 'budget_threshold':
+        return { heading: `Budget alert: ${notification.title}`, detail: `${amount} spent as of ${date}` };
+      case 'large_transaction':
+        return { heading: `Large transaction: ${notification.title}`, detail: `${amount} on ${date}` };
+    }
+  };
+
+  const handleToggle = () => {
+    if (!open) refresh();
+    setOpen(!open);
+  };
+
+  const handleOpen = async (notification: AppNotification) => {
+    if (!notification.read_at) {
+      await markNotificationsRead([notification.id]);
+    }
+    setOpen(false);
+    onNavigate(notification.link);
+    refresh();
+  };
+
+  const handleMarkAllRead = async () => {
+    if (unread.length === 0) return;
+
+    const { error } = await markNotificationsRead(unread.map((notification) => notification.id));
+    if (!error) {
+      refresh();
+    }
+  };
+
+  const handleDismiss = async (id: string) => {
+    const { error } = await dismissNotification(id);
+    if (!error) {
+      setNotifications((prev) => prev.filter((notification) => notification.id !== id));
+    }
+  };
+
+  const handleSnooze = async (id: string, days: number) => {
+    const until = new Date();
+    until.setDate(until.getDate() + days);
+
+    const { error } = await snoozeNotification(id, until);
+    if (!error) {
+      setNotifications((prev) => prev.filter((notification) => notification.id !== id));
+    }
+  };
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={handleToggle}
+        className="relative p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+      >
+        <Bell className="w-6 h-6 text-slate-700 dark:text-slate-300" />
+        {unread.length > 0 && (
+          <span className="absolute top-0 right-0 bg-red-600 text-white text-xs w-5 h-5 rounded-full flex items-center justify-center font-medium">
+            {unread.length > 9 ? '9+' : unread.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-lg z-40">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+            <h3 className="font-semibold text-slate-900 dark:text-white">Notifications</h3>
+            <button
+              onClick={handleMarkAllRead}
+              disabled={unread.length === 0}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+              Mark all as read
+            </button>
+          </div>
+
+          {notifications.length === 0 ? (
+            <div className="px-4 py-8 text-center text-sm text-slate-600 dark:text-slate-400">
+              You're all caught up
+            </div>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700">
+              {notifications.map((notification) => {
+                const { icon: Icon, className } = kindStyles[notification.kind];
+                const { heading, detail } = describe(notification);
+
+                return (
+                  <li
+                    key={notification.id}
+                    className={`flex gap-3 px-4 py-3 ${
+                      notification.read_at ? '' : 'bg-blue-50/60 dark:bg-blue-900/10'
+                    }`}
+                  >
+                    <div className={`p-2 h-fit rounded-lg ${className}`}>
+                      <Icon className="w-4 h-4" />
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <button onClick={() => handleOpen(notification)} className="block w-full text-left">
+                        <p
+                          className={`text-sm text-slate-900 dark:text-white truncate ${
+                            notification.read_at ? '' : 'font-semibold'
+                          }`}
+                        >
+                          {heading}
+                        </p>
+                        <p className="text-xs text-slate-600 dark:text-slate-400">{detail}</p>
+                      </button>
+
+                      <div className="flex items-center gap-3 mt-1 text-xs text-slate-500 dark:text-slate-400">
+                        <Clock className="w-3 h-3" />
+                        {snoozeOptions.map((option) => (
+                          <button
+                            key={option.days}
+                            onClick={() => handleSnooze(notification.id, option.days)}
+                            className="hover:text-blue-600 dark:hover:text-blue-400"
+                          >
+                            Snooze {option.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <button
+                      onClick={() => handleDismiss(notification.id)}
+                      className="h-fit text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+                      title="Dismiss"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
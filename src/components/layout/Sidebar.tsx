@@ -1,4 +1,4 @@
-import { LayoutDashboard, ArrowLeftRight, PieChart, Wallet, Bell, User, Moon, Sun, LogOut } from 'lucide-react';
+import { LayoutDashboard, ArrowLeftRight, Landmark, Tags, PieChart, PiggyBank, Wallet, Bell, User, Moon, Sun, LogOut } from 'lucide-react';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useAuth } from '../../contexts/AuthContext';
 
@@ -10,7 +10,10 @@ interface SidebarProps {
 const navigation = [
   { name: 'Dashboard', icon: LayoutDashboard, id: 'dashboard' },
   { name: 'Transactions', icon: ArrowLeftRight, id: 'transactions' },
+  { name: 'Accounts', icon: Landmark, id: 'accounts' },
+  { name: 'Categories', icon: Tags, id: 'categories' },
   { name: 'Budget', icon: Wallet, id: 'budget' },
+  { name: 'Goals', icon: PiggyBank, id: 'goals' },
   { name: 'Analytics', icon: PieChart, id: 'analytics' },
   { name: 'Reminders', icon: Bell, id: 'reminders' },
   { name: 'Profile', icon: User, id: 'profile' },
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { BellRing, Mail } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { getPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from '../../lib/push';
+
+const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function NotificationSettings() {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState({
+    push_enabled: true,
+    email_digest_enabled: false,
+    digest_day: 1,
+  });
+  const [deviceSubscribed, setDeviceSubscribed] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (user) {
+      loadSettings();
+      getPushSubscription().then((subscription) => setDeviceSubscribed(subscription !== null));
+    }
+  }, [user]);
+
+  const loadSettings = async () => {
+    if (!user) return;
+
+    const { data } = await supabase
+      .from('profiles')
+      .select('push_enabled, email_digest_enabled, digest_day')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (data) {
+      setSettings(data);
+    }
+  };
+
+  const updateSettings = async (changes: Partial<typeof settings>) => {
+    if (!user) return;
+
+    const previous = settings;
+    setSettings({ ...settings, ...changes });
+
+    const { error } = await supabase.from('profiles').update(changes).eq('id', user.id);
+    if (error) {
+      setSettings(previous);
+      setError('Failed to save notification settings');
+    }
+  };
+
+  const handleDeviceToggle = async () => {
+    if (!user) return;
+
+    setBusy(true);
+    setError('');
+
+    if (deviceSubscribed) {
+      await unsubscribeFromPush();
+      setDeviceSubscribed(false);
+    } else {
+      const { error } = await subscribeToPush();
+      if (error) {
+        setError(error);
+      } else {
+        setDeviceSubscribed(true);
+      }
+    }
+
+    setBusy(false);
+  };
+
+  return (
+    <div className="mt-6 bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+      <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">Notifications</h3>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+        Get told about upcoming bills and budget alerts even when the app is closed.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div className="flex items-start justify-between gap-4 py-3 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex items-start gap-3">
+            <BellRing className="w-5 h-5 text-slate-400 mt-0.5" />
+            <div>
+              <label htmlFor="push-enabled" className="font-medium text-slate-900 dark:text-white">
+                Push notifications
+              </label>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {isPushSupported()
+                  ? deviceSubscribed
+                    ? 'This browser receives push notifications.'
+                    : 'This browser is not subscribed yet.'
+                  : 'This browser does not support push notifications.'}
+              </p>
+              {isPushSupported() && (
+                <button
+                  onClick={handleDeviceToggle}
+                  disabled={busy}
+                  className="mt-2 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                >
+                  {deviceSubscribed ? 'Turn off on this device' : 'Turn on for this device'}
+                </button>
+              )}
+            </div>
+          </div>
+          <input
+            type="checkbox"
+            id="push-enabled"
+            checked={settings.push_enabled}
+            onChange={(e) => updateSettings({ push_enabled: e.target.checked })}
+            className="w-4 h-4 mt-1 text-blue-600 bg-slate-100 border-slate-300 rounded focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="flex items-start justify-between gap-4 py-3">
+          <div className="flex items-start gap-3">
+            <Mail className="w-5 h-5 text-slate-400 mt-0.5" />
+            <div>
+              <label htmlFor="email-digest" className="font-medium text-slate-900 dark:text-white">
+                Weekly email digest
+              </label>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                Upcoming bills, budget status and the week's spending.
+              </p>
+              {settings.email_digest_enabled && (
+                <select
+                  value={settings.digest_day}
+                  onChange={(e) => updateSettings({ digest_day: parseInt(e.target.value) })}
+                  className="mt-2 px-3 py-2 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm text-slate-900 dark:text-white"
+                >
+                  {weekdays.map((day, index) => (
+                    <option key={day} value={index}>
+                      Every {day}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+          <input
+            type="checkbox"
+            id="email-digest"
+            checked={settings.email_digest_enabled}
+            onChange={(e) => updateSettings({ email_digest_enabled: e.target.checked })}
+            className="w-4 h-4 mt-1 text-blue-600 bg-slate-100 border-slate-300 rounded focus:ring-blue-500"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useCurrency } from '../../contexts/CurrencyContext';
+import {
+  billFrequencies,
+  describeBillSchedule,
+  nextDueDate,
+  toBillSchedule,
+  weekendShifts,
+  type BillFrequency,
+  type BillScheduleForm,
+  type WeekendShift,
+} from '../../lib/bills';
+
+interface BillScheduleFieldsProps {
+  value: BillScheduleForm;
+  onChange: (value: BillScheduleForm) => void;
+}
+
+const inputClassName =
+  'w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white';
+
+export function BillScheduleFields({ value, onChange }: BillScheduleFieldsProps) {
+  const { formatDate } = useCurrency();
+  const unit = billFrequencies.find((option) => option.value === value.frequency)?.unit;
+  const schedule = value.anchor_date ? toBillSchedule(value) : null;
+  const upcoming = schedule ? nextDueDate(schedule) : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+            Repeats
+          </label>
+          <select
+            value={value.frequency}
+            onChange={(e) => onChange({ ...value, frequency: e.target.value as BillFrequency })}
+            className={inputClassName}
+          >
+            {billFrequencies.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {value.frequency !== 'once' && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              Every
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={value.interval_count}
+                onChange={(e) => onChange({ ...value, interval_count: e.target.value })}
+                className={inputClassName}
+                required
+              />
+              <span className="text-sm text-slate-600 dark:text-slate-400 whitespace-nowrap">
+                {unit}
+                {value.interval_count === '1' ? '' : 's'}
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+          {value.frequency === 'once' ? 'Due Date' : 'First Due Date'}
+        </label>
+        <input
+          type="date"
+          value={value.anchor_date}
+          onChange={(e) => onChange({ ...value, anchor_date: e.target.value })}
+          className={inputClassName}
+          required
+        />
+      </div>
+
+      {(value.frequency === 'monthly' || value.frequency === 'yearly') && (
+        <div className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            id="end-of-month"
+            checked={value.end_of_month}
+            onChange={(e) => onChange({ ...value, end_of_month: e.target.checked })}
+            className="w-4 h-4 text-blue-600 bg-slate-100 border-slate-300 rounded focus:ring-blue-500"
+          />
+          <label htmlFor="end-of-month" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+            Always due on the last day of the month
+          </label>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+          When It Falls on a Weekend
+        </label>
+        <select
+          value={value.weekend_shift}
+          onChange={(e) => onChange({ ...value, weekend_shift: e.target.value as WeekendShift })}
+          className={inputClassName}
+        >
+          {weekendShifts.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {schedule && (
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          {describeBillSchedule(schedule)}
+          {upcoming ? ` · next due ${formatDate(upcoming)}` : ' · already past'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,658 @@
+import { useState } from 'react';
+import { X, Upload, AlertCircle, CheckCircle, FileText } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { dateFormats, detectDateFormat, parseAmount, parseCsv, parseDate, type DateFormat } from '../../lib/csv';
+import { detectStatementFormat, parseStatement } from '../../lib/statementParsers';
+import {
+  findExistingDuplicates,
+  insertImportedTransactions,
+  isDuplicate,
+  type ImportedTransaction,
+} from '../../lib/transactionImport';
+
+interface Category {
+  id: string;
+  name: string;
+  type: 'income' | 'expense';
+}
+
+interface Account {
+  id: string;
+  name: string;
+}
+
+interface ImportWizardProps {
+  categories: Category[];
+  accounts: Account[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+type AmountMode = 'signed' | 'split';
+type SignConvention = 'negative-is-expense' | 'positive-is-expense';
+
+interface ColumnMapping {
+  date: number;
+  description: number;
+  amount: number;
+  debit: number;
+  credit: number;
+  category: number;
+  reference: number;
+}
+
+interface PreviewRow extends ImportedTransaction {
+  line: number;
+  errors: string[];
+  duplicate: boolean;
+  include: boolean;
+}
+
+const NONE = -1;
+
+const guessColumn = (headers: string[], pattern: RegExp) =>
+  headers.findIndex((header) => pattern.test(header));
+
+const inputClassName =
+  'w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white';
+
+export function ImportWizard({ categories, accounts, onClose, onImported }: ImportWizardProps) {
+  const { user } = useAuth();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({
+    date: NONE,
+    description: NONE,
+    amount: NONE,
+    debit: NONE,
+    credit: NONE,
+    category: NONE,
+    reference: NONE,
+  });
+  const [amountMode, setAmountMode] = useState<AmountMode>('signed');
+  const [signConvention, setSignConvention] = useState<SignConvention>('negative-is-expense');
+  const [dateFormat, setDateFormat] = useState<DateFormat>('YYYY-MM-DD');
+  const [detectedFormat, setDetectedFormat] = useState<DateFormat | null>(null);
+  const [defaultCategories, setDefaultCategories] = useState({
+    income: categories.find((cat) => cat.type === 'income')?.id ?? '',
+    expense: categories.find((cat) => cat.type === 'expense')?.id ?? '',
+  });
+  const [accountId, setAccountId] = useState(accounts[0]?.id ?? '');
+  const [previewRows, setPreviewRows] = useState<PreviewRow[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [importedCount, setImportedCount] = useState(0);
+
+  const headers = hasHeader && rows.length > 0
+    ? rows[0]
+    : (rows[0] ?? []).map((_, index) => `Column ${index + 1}`);
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  const handleFile = async (file: File) => {
+    setError('');
+    const text = await file.text();
+    const statementFormat = detectStatementFormat(file.name, text);
+    const parsed = statementFormat
+      ? [
+          ['Date', 'Description', 'Amount', 'Category', 'Reference'],
+          ...parseStatement(statementFormat, text).map((transaction) => [
+            transaction.date,
+            transaction.description,
+            transaction.amount === null ? '' : String(transaction.amount),
+            transaction.category,
+            transaction.external_id ?? '',
+          ]),
+        ]
+      : parseCsv(text);
+
+    if (parsed.length <= (statementFormat ? 1 : 0)) {
+      setError('That file does not contain any transactions.');
+      return;
+    }
+
+    const header = parsed[0].map((value) => value.toLowerCase());
+    const guessed: ColumnMapping = {
+      date: guessColumn(header, /date/),
+      description: guessColumn(header, /desc|memo|payee|narrative|details|name/),
+      amount: guessColumn(header, /amount|value/),
+      debit: guessColumn(header, /debit|withdrawal|paid out/),
+      credit: guessColumn(header, /credit|deposit|paid in/),
+      category: guessColumn(header, /categor/),
+      reference: guessColumn(header, /^ref|reference|fitid|transaction id/),
+    };
+
+    setFileName(file.name);
+    setRows(parsed);
+    setHasHeader(true);
+    setMapping(guessed);
+    setAmountMode(guessed.amount === NONE && guessed.debit !== NONE ? 'split' : 'signed');
+
+    const format = guessed.date !== NONE
+      ? detectDateFormat(parsed.slice(1).map((row) => row[guessed.date] ?? ''))
+      : null;
+    setDetectedFormat(format);
+    if (format) setDateFormat(format);
+
+    setStep('map');
+  };
+
+  const updateDateColumn = (column: number) => {
+    setMapping({ ...mapping, date: column });
+    const format = column !== NONE
+      ? detectDateFormat(dataRows.map((row) => row[column] ?? ''))
+      : null;
+    setDetectedFormat(format);
+    if (format) setDateFormat(format);
+  };
+
+  const resolveCategory = (type: 'income' | 'expense', name: string | undefined) => {
+    if (name) {
+      const match = categories.find(
+        (cat) => cat.type === type && cat.name.toLowerCase() === name.trim().toLowerCase()
+      );
+      if (match) return match.id;
+    }
+    return defaultCategories[type];
+  };
+
+  const buildPreview = async () => {
+    if (!user) return;
+
+    if (mapping.date === NONE || (amountMode === 'signed' ? mapping.amount === NONE : mapping.debit === NONE && mapping.credit === NONE)) {
+      setError('Map the date and amount columns before continuing.');
+      return;
+    }
+
+    setError('');
+    setBusy(true);
+
+    const built: PreviewRow[] = dataRows.map((row, index) => {
+      const errors: string[] = [];
+      const rawDate = row[mapping.date] ?? '';
+      const date = parseDate(rawDate, dateFormat);
+      if (!date) errors.push(`Invalid date "${rawDate}"`);
+
+      let signed: number | null = null;
+      if (amountMode === 'signed') {
+        const raw = row[mapping.amount] ?? '';
+        signed = parseAmount(raw);
+        if (signed === null) {
+          errors.push(`Invalid amount "${raw}"`);
+        } else if (signConvention === 'positive-is-expense') {
+          signed = -signed;
+        }
+      } else {
+        const debit = mapping.debit !== NONE ? parseAmount(row[mapping.debit] ?? '') : null;
+        const credit = mapping.credit !== NONE ? parseAmount(row[mapping.credit] ?? '') : null;
+        if (debit === null && credit === null) {
+          errors.push('Missing debit or credit amount');
+        } else {
+          signed = Math.abs(credit ?? 0) - Math.abs(debit ?? 0);
+        }
+      }
+
+      if (signed === 0) errors.push('Amount is zero');
+
+      const type = signed !== null && signed > 0 ? 'income' : 'expense';
+      const categoryId = resolveCategory(
+        type,
+        mapping.category !== NONE ? row[mapping.category] : undefined
+      );
+      if (!categoryId) errors.push(`No ${type} category selected`);
+
+      return {
+        line: index + (hasHeader ? 2 : 1),
+        date: date ?? rawDate,
+        amount: Math.abs(signed ?? 0),
+        type,
+        description: mapping.description !== NONE ? row[mapping.description] ?? '' : '',
+        category_id: categoryId,
+        external_id: mapping.reference !== NONE ? row[mapping.reference] || null : null,
+        errors,
+        duplicate: false,
+        include: errors.length === 0,
+      };
+    });
+
+    try {
+      const existing = await findExistingDuplicates(
+        user.id,
+        built.filter((row) => row.errors.length === 0)
+      );
+
+      const seenReferences = new Set<string>();
+
+      setPreviewRows(
+        built.map((row) => {
+          const repeatedInFile = row.external_id !== null && seenReferences.has(row.external_id);
+          if (row.external_id !== null) seenReferences.add(row.external_id);
+
+          const duplicate = row.errors.length === 0 && (repeatedInFile || isDuplicate(existing, row));
+          return { ...row, duplicate, include: row.include && !duplicate };
+        })
+      );
+      setStep('preview');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not check for duplicates');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updatePreviewRow = (line: number, changes: Partial<PreviewRow>) => {
+    setPreviewRows((prev) => prev.map((row) => (row.line === line ? { ...row, ...changes } : row)));
+  };
+
+  const handleImport = async () => {
+    if (!user) return;
+
+    const selected = previewRows
+      .filter((row) => row.include && row.errors.length === 0)
+      .map(({ date, amount, type, description, category_id, external_id }) => ({
+        date,
+        amount,
+        type,
+        description,
+        category_id,
+        external_id,
+      }));
+
+    setBusy(true);
+    setError('');
+
+    const { inserted, error } = await insertImportedTransactions(user.id, accountId || null, selected);
+
+    setBusy(false);
+    setImportedCount(inserted);
+
+    if (inserted > 0) {
+      onImported();
+    }
+
+    if (error) {
+      setError(`Imported ${inserted} of ${selected.length} transactions before an error: ${error.message}`);
+    } else {
+      setStep('done');
+    }
+  };
+
+  const validCount = previewRows.filter((row) => row.errors.length === 0).length;
+  const duplicateCount = previewRows.filter((row) => row.duplicate).length;
+  const selectedCount = previewRows.filter((row) => row.include).length;
+
+  const columnSelect = (value: number, onChange: (column: number) => void, optional = false) => (
+    <select value={value} onChange={(e) => onChange(Number(e.target.value))} className={inputClassName}>
+      <option value={NONE}>{optional ? 'None' : 'Select a column'}</option>
+      {headers.map((header, index) => (
+        <option key={index} value={index}>
+          {header || `Column ${index + 1}`}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 w-full max-w-4xl max-h-[90vh] flex flex-col shadow-xl">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900 dark:text-white">Import Transactions</h3>
+            {fileName && (
+              <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{fileName}</p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center gap-3 p-12 border-2 border-dashed border-slate-300 dark:border-slate-600 rounded-xl cursor-pointer hover:border-blue-500 transition-colors">
+              <Upload className="w-10 h-10 text-slate-400" />
+              <span className="font-medium text-slate-900 dark:text-white">Choose a bank statement</span>
+              <span className="text-sm text-slate-500 dark:text-slate-400">
+                CSV, OFX, QFX or QIF
+              </span>
+              <input
+                type="file"
+                accept=".csv,.ofx,.qfx,.qif,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                }}
+              />
+            </label>
+          )}
+
+          {step === 'map' && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  id="hasHeader"
+                  checked={hasHeader}
+                  onChange={(e) => setHasHeader(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 bg-slate-100 border-slate-300 rounded focus:ring-blue-500"
+                />
+                <label htmlFor="hasHeader" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                  First row contains column names
+                </label>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Date column
+                  </label>
+                  {columnSelect(mapping.date, updateDateColumn)}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Date format
+                  </label>
+                  <select
+                    value={dateFormat}
+                    onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+                    className={inputClassName}
+                  >
+                    {dateFormats.map((format) => (
+                      <option key={format} value={format}>
+                        {format}
+                        {format === detectedFormat ? ' (detected)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Description column
+                  </label>
+                  {columnSelect(mapping.description, (column) => setMapping({ ...mapping, description: column }), true)}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Category column
+                  </label>
+                  {columnSelect(mapping.category, (column) => setMapping({ ...mapping, category: column }), true)}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Reference column
+                  </label>
+                  {columnSelect(mapping.reference, (column) => setMapping({ ...mapping, reference: column }), true)}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Amounts
+                  </label>
+                  <select
+                    value={amountMode}
+                    onChange={(e) => setAmountMode(e.target.value as AmountMode)}
+                    className={inputClassName}
+                  >
+                    <option value="signed">One amount column</option>
+                    <option value="split">Separate debit and credit columns</option>
+                  </select>
+                </div>
+
+                {amountMode === 'signed' ? (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                        Amount column
+                      </label>
+                      {columnSelect(mapping.amount, (column) => setMapping({ ...mapping, amount: column }))}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                        Sign convention
+                      </label>
+                      <select
+                        value={signConvention}
+                        onChange={(e) => setSignConvention(e.target.value as SignConvention)}
+                        className={inputClassName}
+                      >
+                        <option value="negative-is-expense">Negative amounts are expenses</option>
+                        <option value="positive-is-expense">Positive amounts are expenses</option>
+                      </select>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                        Debit (money out) column
+                      </label>
+                      {columnSelect(mapping.debit, (column) => setMapping({ ...mapping, debit: column }), true)}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                        Credit (money in) column
+                      </label>
+                      {columnSelect(mapping.credit, (column) => setMapping({ ...mapping, credit: column }), true)}
+                    </div>
+                  </>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Import into account
+                  </label>
+                  <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClassName}>
+                    {accounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {(['income', 'expense'] as const).map((type) => (
+                  <div key={type}>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      Default {type} category
+                    </label>
+                    <select
+                      value={defaultCategories[type]}
+                      onChange={(e) => setDefaultCategories({ ...defaultCategories, [type]: e.target.value })}
+                      className={inputClassName}
+                    >
+                      {categories
+                        .filter((cat) => cat.type === type)
+                        .map((category) => (
+                          <option key={category.id} value={category.id}>
+                            {category.name}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                {dataRows.length} row{dataRows.length === 1 ? '' : 's'} found
+              </p>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-3 text-sm">
+                <span className="px-3 py-1 rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
+                  {validCount} valid
+                </span>
+                <span className="px-3 py-1 rounded-full bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400">
+                  {previewRows.length - validCount} with errors
+                </span>
+                <span className="px-3 py-1 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400">
+                  {duplicateCount} possible duplicate{duplicateCount === 1 ? '' : 's'}
+                </span>
+              </div>
+
+              <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 dark:bg-slate-700/50">
+                    <tr>
+                      <th className="px-3 py-2" />
+                      <th className="px-3 py-2 text-left font-semibold text-slate-700 dark:text-slate-300">Line</th>
+                      <th className="px-3 py-2 text-left font-semibold text-slate-700 dark:text-slate-300">Date</th>
+                      <th className="px-3 py-2 text-left font-semibold text-slate-700 dark:text-slate-300">Description</th>
+                      <th className="px-3 py-2 text-left font-semibold text-slate-700 dark:text-slate-300">Category</th>
+                      <th className="px-3 py-2 text-right font-semibold text-slate-700 dark:text-slate-300">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                    {previewRows.map((row) => (
+                      <tr
+                        key={row.line}
+                        className={
+                          row.errors.length > 0
+                            ? 'bg-red-50 dark:bg-red-900/10'
+                            : row.duplicate
+                              ? 'bg-amber-50 dark:bg-amber-900/10'
+                              : ''
+                        }
+                      >
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            checked={row.include}
+                            disabled={row.errors.length > 0}
+                            onChange={(e) => updatePreviewRow(row.line, { include: e.target.checked })}
+                            className="w-4 h-4 text-blue-600 bg-slate-100 border-slate-300 rounded focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-slate-500 dark:text-slate-400">{row.line}</td>
+                        <td className="px-3 py-2 text-slate-900 dark:text-white whitespace-nowrap">{row.date}</td>
+                        <td className="px-3 py-2 text-slate-600 dark:text-slate-400">
+                          <div>{row.description || '-'}</div>
+                          {row.errors.map((message) => (
+                            <div key={message} className="text-xs text-red-600 dark:text-red-400">
+                              {message}
+                            </div>
+                          ))}
+                          {row.duplicate && (
+                            <div className="text-xs text-amber-700 dark:text-amber-400">
+                              Matches an existing transaction
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          <select
+                            value={row.category_id}
+                            disabled={row.errors.length > 0}
+                            onChange={(e) => updatePreviewRow(row.line, { category_id: e.target.value })}
+                            className="px-2 py-1 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded text-slate-900 dark:text-white"
+                          >
+                            {categories
+                              .filter((cat) => cat.type === row.type)
+                              .map((category) => (
+                                <option key={category.id} value={category.id}>
+                                  {category.name}
+                                </option>
+                              ))}
+                          </select>
+                        </td>
+                        <td
+                          className={`px-3 py-2 text-right font-semibold whitespace-nowrap ${
+                            row.type === 'income'
+                              ? 'text-green-600 dark:text-green-400'
+                              : 'text-red-600 dark:text-red-400'
+                          }`}
+                        >
+                          {row.type === 'income' ? '+' : '-'}
+                          {row.amount.toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && (
+            <div className="flex flex-col items-center justify-center gap-3 p-12 text-center">
+              <CheckCircle className="w-12 h-12 text-green-600 dark:text-green-400" />
+              <p className="font-medium text-slate-900 dark:text-white">
+                Imported {importedCount} transaction{importedCount === 1 ? '' : 's'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-6">
+          {step === 'map' && (
+            <>
+              <button
+                type="button"
+                onClick={() => setStep('upload')}
+                className="flex-1 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={buildPreview}
+                disabled={busy}
+                className="flex-1 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {busy ? 'Checking...' : 'Preview'}
+              </button>
+            </>
+          )}
+
+          {step === 'preview' && (
+            <>
+              <button
+                type="button"
+                onClick={() => setStep('map')}
+                className="flex-1 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={busy || selectedCount === 0}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FileText className="w-5 h-5" />
+                <span>{busy ? 'Importing...' : `Import ${selectedCount} transaction${selectedCount === 1 ? '' : 's'}`}</span>
+              </button>
+            </>
+          )}
+
+          {(step === 'upload' || step === 'done') && (
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+            >
+              {step === 'done' ? 'Close' : 'Cancel'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
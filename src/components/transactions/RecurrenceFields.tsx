@@ -0,0 +1,86 @@
+import { frequencies, type Frequency, type RecurrenceEnd, type RecurrenceForm } from '../../lib/recurring';
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceForm;
+  onChange: (value: RecurrenceForm) => void;
+  countLabel?: string;
+}
+
+const inputClassName =
+  'w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white';
+
+const endOptions: { value: RecurrenceEnd; label: string }[] = [
+  { value: 'never', label: 'Never' },
+  { value: 'on', label: 'On date' },
+  { value: 'after', label: 'After' },
+];
+
+export function RecurrenceFields({ value, onChange, countLabel = 'occurrences' }: RecurrenceFieldsProps) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+          Frequency
+        </label>
+        <select
+          value={value.frequency}
+          onChange={(e) => onChange({ ...value, frequency: e.target.value as Frequency })}
+          className={inputClassName}
+        >
+          {frequencies.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+          Ends
+        </label>
+        <div className="flex gap-2">
+          {endOptions.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onChange({ ...value, ends: option.value })}
+              className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${
+                value.ends === option.value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {value.ends === 'on' && (
+          <input
+            type="date"
+            value={value.end_date}
+            onChange={(e) => onChange({ ...value, end_date: e.target.value })}
+            className={`${inputClassName} mt-2`}
+            required
+          />
+        )}
+
+        {value.ends === 'after' && (
+          <div className="flex items-center gap-2 mt-2">
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={value.count}
+              onChange={(e) => onChange({ ...value, count: e.target.value })}
+              className={inputClassName}
+              required
+            />
+            <span className="text-sm text-slate-600 dark:text-slate-400 whitespace-nowrap">{countLabel}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
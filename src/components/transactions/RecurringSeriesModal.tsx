@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { currencies } from '../../lib/currency';
+import type { Account } from '../../lib/accounts';
+import { type RecurrenceForm, type RecurringTransaction } from '../../lib/recurring';
+import { RecurrenceFields } from './RecurrenceFields';
+
+interface Category {
+  id: string;
+  name: string;
+  type: 'income' | 'expense';
+}
+
+interface RecurringSeriesModalProps {
+  series: RecurringTransaction;
+  categories: Category[];
+  accounts: Account[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const inputClassName =
+  'w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white';
+
+export function RecurringSeriesModal({ series, categories, accounts, onClose, onSaved }: RecurringSeriesModalProps) {
+  const { currency: homeCurrency, rateFor, saveRate } = useCurrency();
+  const remaining =
+    series.occurrence_limit !== null ? series.occurrence_limit - series.occurrences_generated : null;
+
+  const [formData, setFormData] = useState({
+    amount: String(series.amount),
+    currency: series.currency,
+    exchange_rate: String(series.exchange_rate),
+    category_id: series.category_id,
+    account_id: series.account_id ?? '',
+    description: series.description,
+    next_date: series.next_date ?? '',
+  });
+  const [recurrence, setRecurrence] = useState<RecurrenceForm>({
+    frequency: series.frequency,
+    ends: remaining !== null ? 'after' : series.end_date ? 'on' : 'never',
+    end_date: series.end_date ?? '',
+    count: String(Math.max(remaining ?? 12, 1)),
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const isForeign = formData.currency !== homeCurrency;
+    const exchangeRate = isForeign ? parseFloat(formData.exchange_rate) : 1;
+    const count = parseInt(recurrence.count, 10);
+
+    if (!(exchangeRate > 0)) return;
+    if (recurrence.ends === 'on' && recurrence.end_date < formData.next_date) {
+      setError('The end date must be on or after the next occurrence.');
+      return;
+    }
+
+    // A new frequency or next date starts a fresh schedule from that date; otherwise occurrences
+    // keep counting from the original start so month-end anchoring is preserved
+    const reanchor = recurrence.frequency !== series.frequency || formData.next_date !== series.next_date;
+    const generated = reanchor ? 0 : series.occurrences_generated;
+
+    setSaving(true);
+    setError('');
+
+    if (isForeign) {
+      saveRate(formData.currency, exchangeRate);
+    }
+
+    const { error } = await supabase
+      .from('recurring_transactions')
+      .update({
+        amount: parseFloat(formData.amount),
+        currency: formData.currency,
+        exchange_rate: exchangeRate,
+        category_id: formData.category_id,
+        account_id: formData.account_id || null,
+        description: formData.description,
+        frequency: recurrence.frequency,
+        start_date: reanchor ? formData.next_date : series.start_date,
+        end_date: recurrence.ends === 'on' ? recurrence.end_date : null,
+        occurrence_limit: recurrence.ends === 'after' ? generated + count : null,
+        occurrences_generated: generated,
+        next_date: formData.next_date,
+      })
+      .eq('id', series.id);
+
+    setSaving(false);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      onSaved();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto shadow-xl">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-xl font-bold text-slate-900 dark:text-white">Edit Recurring Series</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">
+          Changes apply to future occurrences. Transactions already created keep their values.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Amount</label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                className={`${inputClassName} flex-1 min-w-0`}
+                required
+              />
+              <select
+                value={formData.currency}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    currency: e.target.value,
+                    exchange_rate: String(rateFor(e.target.value)),
+                  })
+                }
+                className="px-3 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+              >
+                {currencies.map(({ code }) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {formData.currency !== homeCurrency && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Exchange Rate (1 {formData.currency} in {homeCurrency})
+              </label>
+              <input
+                type="number"
+                step="any"
+                min="0"
+                value={formData.exchange_rate}
+                onChange={(e) => setFormData({ ...formData, exchange_rate: e.target.value })}
+                className={inputClassName}
+                required
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Category</label>
+            <select
+              value={formData.category_id}
+              onChange={(e) => setFormData({ ...formData, category_id: e.target.value })}
+              className={inputClassName}
+              required
+            >
+              {categories
+                .filter((cat) => cat.type === series.type)
+                .map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Account</label>
+            <select
+              value={formData.account_id}
+              onChange={(e) => setFormData({ ...formData, account_id: e.target.value })}
+              className={inputClassName}
+              required
+            >
+              {accounts
+                .filter((acc) => !acc.is_archived || acc.id === formData.account_id)
+                .map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              Description
+            </label>
+            <input
+              type="text"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              Next Occurrence
+            </label>
+            <input
+              type="date"
+              value={formData.next_date}
+              onChange={(e) => setFormData({ ...formData, next_date: e.target.value })}
+              className={inputClassName}
+              required
+            />
+          </div>
+
+          <RecurrenceFields value={recurrence} onChange={setRecurrence} countLabel="more occurrences" />
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Series'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
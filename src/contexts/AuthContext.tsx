@@ -1,46 +1,163 @@
-import { createContext, useContext } from "react";
-import { getAuth, createUserWithEmailAndPassword, signInWithEmailAndPassword, signOut as firebaseSignOut } from "firebase/auth";
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import type { AuthError, Provider, Session, User } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { unsubscribeFromPush } from '../lib/push';
 
-const AuthContext = createContext<any>(null);
+interface AuthContextType {
+  user: User | null;
+  session: Session | null;
+  loading: boolean;
+  passwordRecovery: boolean;
+  signUp: (email: string, password: string, fullName: string) => Promise<{ error: AuthError | null }>;
+  signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>;
+  signInWithMagicLink: (email: string) => Promise<{ error: AuthError | null }>;
+  signInWithOAuth: (provider: Provider) => Promise<{ error: AuthError | null }>;
+  resetPassword: (email: string) => Promise<{ error: AuthError | null }>;
+  updatePassword: (password: string) => Promise<{ error: AuthError | null }>;
+  signOut: () => Promise<void>;
+}
+
+const redirectUrl = () => window.location.origin;
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setLoading(false);
+    });
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, newSession) => {
+      if (event === 'PASSWORD_RECOVERY') {
+        setPasswordRecovery(true);
+      } else if (event === 'SIGNED_OUT') {
+        setPasswordRecovery(false);
+      }
+      setSession(newSession);
+      setLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const userId = session?.user.id;
 
-export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const auth = getAuth();
+  useEffect(() => {
+    if (!userId) return;
+
+    // Profiles and default categories are created by a database trigger on sign-up; this repairs
+    // accounts that predate it. The RPC is idempotent: categories are only ever seeded once per user.
+    supabase.rpc('ensure_user_onboarded').then(({ error }) => {
+      if (error) {
+        console.error('Onboarding error:', error.message);
+      }
+    });
+  }, [userId]);
 
   const signUp = async (email: string, password: string, fullName: string) => {
-    try {
-      const userCredential = await createUserWithEmailAndPassword(auth, email, password);
-      console.log("User signed up:", userCredential.user);
-      return { user: userCredential.user };
-    } catch (error: any) {
-      console.error("Signup Error:", error.message);
-      return { error };
-    }
+    const { error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: {
+        data: { full_name: fullName },
+      },
+    });
+
+    return { error };
   };
 
   const signIn = async (email: string, password: string) => {
-    try {
-      const userCredential = await signInWithEmailAndPassword(auth, email, password);
-      console.log("User signed in:", userCredential.user);
-      return { user: userCredential.user };
-    } catch (error: any) {
-      console.error("Signin Error:", error.message);
-      return { error };
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+
+    return { error };
+  };
+
+  const signInWithMagicLink = async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: redirectUrl(),
+        shouldCreateUser: false,
+      },
+    });
+
+    return { error };
+  };
+
+  const signInWithOAuth = async (provider: Provider) => {
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: redirectUrl() },
+    });
+
+    return { error };
+  };
+
+  const resetPassword = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: redirectUrl(),
+    });
+
+    return { error };
+  };
+
+  const updatePassword = async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password });
+
+    if (!error) {
+      setPasswordRecovery(false);
     }
+
+    return { error };
   };
 
   const signOut = async () => {
+    // Must run while still signed in, as RLS only lets the owner delete the subscription row
     try {
-      await firebaseSignOut(auth);
-    } catch (error) {
-      console.error("Signout Error:", error);
+      await unsubscribeFromPush();
+    } catch (err) {
+      console.error('Push unsubscribe error:', err);
+    }
+
+    const { error } = await supabase.auth.signOut();
+
+    if (error) {
+      console.error('Sign out error:', error.message);
     }
   };
 
   return (
-    <AuthContext.Provider value={{ signUp, signIn, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user: session?.user ?? null,
+        session,
+        loading,
+        passwordRecovery,
+        signUp,
+        signIn,
+        signInWithMagicLink,
+        signInWithOAuth,
+        resetPassword,
+        updatePassword,
+        signOut,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
 }
 
-export const useAuth = () => useContext(AuthContext);
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
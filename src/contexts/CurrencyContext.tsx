@@ -0,0 +1,122 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { supabase } from '../lib/supabase';
+import { formatMoney, toHomeAmount, type Convertible } from '../lib/currency';
+import { useAuth } from './AuthContext';
+
+interface CurrencyPreferences {
+  currency: string;
+  locale: string;
+}
+
+interface CurrencyContextType extends CurrencyPreferences {
+  rates: Record<string, number>;
+  formatCurrency: (amount: number, currency?: string) => string;
+  formatDate: (dateString: string, options?: Intl.DateTimeFormatOptions) => string;
+  toHome: (transaction: Convertible) => number;
+  rateFor: (currency: string) => number;
+  saveRate: (currency: string, rate: number) => Promise<void>;
+  deleteRate: (currency: string) => Promise<void>;
+  setPreferences: (preferences: CurrencyPreferences) => void;
+}
+
+const defaultPreferences: CurrencyPreferences = { currency: 'USD', locale: 'en-US' };
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<CurrencyPreferences>(defaultPreferences);
+  const [rates, setRates] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (user) {
+      loadPreferences();
+    } else {
+      setPreferences(defaultPreferences);
+      setRates({});
+    }
+  }, [user]);
+
+  const loadPreferences = async () => {
+    if (!user) return;
+
+    const [{ data: profile }, { data: rateData }] = await Promise.all([
+      supabase.from('profiles').select('currency, locale').eq('id', user.id).maybeSingle(),
+      supabase.from('exchange_rates').select('currency, rate').eq('user_id', user.id),
+    ]);
+
+    if (profile) {
+      setPreferences({ currency: profile.currency, locale: profile.locale });
+    }
+
+    if (rateData) {
+      setRates(Object.fromEntries(rateData.map(({ currency, rate }) => [currency, Number(rate)])));
+    }
+  };
+
+  const formatCurrency = (amount: number, currency = preferences.currency) =>
+    formatMoney(amount, currency, preferences.locale);
+
+  const formatDate = (
+    dateString: string,
+    options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' }
+  ) => new Date(dateString).toLocaleDateString(preferences.locale, options);
+
+  const rateFor = (currency: string) =>
+    currency === preferences.currency ? 1 : rates[currency] ?? 1;
+
+  const saveRate = async (currency: string, rate: number) => {
+    if (!user || currency === preferences.currency || rates[currency] === rate) return;
+
+    setRates((prev) => ({ ...prev, [currency]: rate }));
+
+    await supabase.from('exchange_rates').upsert(
+      { user_id: user.id, currency, rate, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id,currency' }
+    );
+  };
+
+  const deleteRate = async (currency: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('exchange_rates')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('currency', currency);
+
+    if (!error) {
+      setRates((prev) => {
+        const next = { ...prev };
+        delete next[currency];
+        return next;
+      });
+    }
+  };
+
+  return (
+    <CurrencyContext.Provider
+      value={{
+        ...preferences,
+        rates,
+        formatCurrency,
+        formatDate,
+        toHome: toHomeAmount,
+        rateFor,
+        saveRate,
+        deleteRate,
+        setPreferences,
+      }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
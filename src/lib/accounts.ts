@@ -0,0 +1,79 @@
+import { Banknote, CreditCard, Landmark, PiggyBank, type LucideIcon } from 'lucide-react';
+import { toHomeAmount } from './currency';
+import { supabase } from './supabase';
+
+export type AccountType = 'checking' | 'savings' | 'credit_card' | 'cash';
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  opening_balance: number;
+  is_archived: boolean;
+}
+
+export interface LedgerTransaction {
+  id: string;
+  date: string;
+  created_at?: string;
+  type: 'income' | 'expense' | 'transfer';
+  amount: number;
+  exchange_rate?: number;
+  account_id: string | null;
+  transfer_account_id: string | null;
+}
+
+export interface AccountBalance {
+  balance: number;
+  transactionCount: number;
+}
+
+export const accountTypes: { value: AccountType; label: string; icon: LucideIcon }[] = [
+  { value: 'checking', label: 'Checking', icon: Landmark },
+  { value: 'savings', label: 'Savings', icon: PiggyBank },
+  { value: 'credit_card', label: 'Credit Card', icon: CreditCard },
+  { value: 'cash', label: 'Cash', icon: Banknote },
+];
+
+export function getAccountType(type: AccountType) {
+  return accountTypes.find((option) => option.value === type) ?? accountTypes[0];
+}
+
+export function signedAmountForAccount(transaction: LedgerTransaction, accountId: string) {
+  const amount = toHomeAmount(transaction);
+
+  if (transaction.type === 'transfer') {
+    if (transaction.transfer_account_id === accountId) return amount;
+    if (transaction.account_id === accountId) return -amount;
+    return 0;
+  }
+
+  if (transaction.account_id !== accountId) return 0;
+  return transaction.type === 'income' ? amount : -amount;
+}
+
+// Current balance and transaction count of each of the signed-in user's accounts, summed by the
+// database and keyed by account id
+export async function loadAccountBalances() {
+  const { data } = await supabase.rpc('account_balances');
+
+  return Object.fromEntries(
+    (data ?? []).map((row) => [
+      row.account_id,
+      { balance: Number(row.balance), transactionCount: row.transaction_count },
+    ])
+  ) as Record<string, AccountBalance>;
+}
+
+// Adds each transaction's effect on the account and the balance right after it. The transactions
+// must be the account's latest, newest first, so balances can be worked back from the current one.
+export function withRunningBalance<T extends LedgerTransaction>(accountId: string, balance: number, transactions: T[]) {
+  let running = balance;
+
+  return transactions.map((transaction) => {
+    const change = signedAmountForAccount(transaction, accountId);
+    const row = { ...transaction, change, running_balance: running };
+    running -= change;
+    return row;
+  });
+}
@@ -0,0 +1,240 @@
+import { supabase } from './supabase';
+import { toHomeAmount } from './currency';
+import {
+  addDays,
+  daysBetween,
+  dueDatesAround,
+  getBillPeriod,
+  todayIso,
+  type BillFrequency,
+  type BillPeriod as SchedulePeriod,
+  type BillSchedule,
+  type ScheduledBill,
+  type WeekendShift,
+} from '../../supabase/functions/_shared/schedule';
+
+export {
+  billDueDate,
+  daysBetween,
+  dueDatesAround,
+  getBillPeriod,
+  todayIso,
+  type BillFrequency,
+  type BillSchedule,
+  type BillStatus,
+  type WeekendShift,
+} from '../../supabase/functions/_shared/schedule';
+
+export interface BillReminder extends ScheduledBill {
+  title: string;
+  amount: number;
+  category_id: string | null;
+}
+
+export interface BillPayment {
+  id: string;
+  reminder_id: string;
+  due_on: string;
+  transaction_id: string | null;
+  amount: number;
+  is_auto_matched: boolean;
+  paid_at: string;
+}
+
+export type BillPeriod = SchedulePeriod<BillPayment>;
+
+interface MatchableTransaction {
+  id: string;
+  date: string;
+  type: string;
+  amount: number;
+  exchange_rate?: number;
+  category_id: string | null;
+  description: string;
+}
+
+export interface BillScheduleForm {
+  frequency: BillFrequency;
+  interval_count: string;
+  anchor_date: string;
+  end_of_month: boolean;
+  weekend_shift: WeekendShift;
+}
+
+export const billFrequencies: { value: BillFrequency; label: string; unit: string }[] = [
+  { value: 'once', label: 'One time', unit: '' },
+  { value: 'weekly', label: 'Weekly', unit: 'week' },
+  { value: 'monthly', label: 'Monthly', unit: 'month' },
+  { value: 'yearly', label: 'Yearly', unit: 'year' },
+];
+
+export const weekendShifts: { value: WeekendShift; label: string }[] = [
+  { value: 'none', label: 'Keep the date' },
+  { value: 'before', label: 'Move to the Friday before' },
+  { value: 'after', label: 'Move to the Monday after' },
+];
+
+const PERIODS_PER_YEAR = { weekly: 52, monthly: 12, yearly: 1 } as const;
+
+// How far a transaction's date may be from the due date, and its amount from the bill's, to count as a payment
+const MATCH_WINDOW_DAYS = 7;
+const MATCH_AMOUNT_TOLERANCE = 0.05;
+
+export const ordinal = (day: number) => {
+  if (day >= 11 && day <= 13) return `${day}th`;
+  return `${day}${['th', 'st', 'nd', 'rd'][day % 10] ?? 'th'}`;
+};
+
+export function nextDueDate(schedule: BillSchedule, onOrAfter = todayIso()) {
+  const { previous, next } = dueDatesAround(schedule, onOrAfter);
+  return previous === onOrAfter ? previous : next;
+}
+
+const dateName = (date: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+
+export function describeBillSchedule(schedule: BillSchedule) {
+  const { frequency, interval_count: every, anchor_date: anchor, end_of_month, weekend_shift } = schedule;
+
+  if (frequency === 'once') return 'One time';
+
+  const day = Number(anchor.split('-')[2]);
+  const unit = billFrequencies.find((option) => option.value === frequency)?.unit ?? frequency;
+  const repeat =
+    every === 1
+      ? billFrequencies.find((option) => option.value === frequency)?.label ?? frequency
+      : frequency === 'monthly' && every === 3
+        ? 'Quarterly'
+        : `Every ${every} ${unit}s`;
+  const lastBusinessDay = end_of_month && weekend_shift === 'before';
+
+  let on: string;
+  if (frequency === 'weekly') {
+    on = `on ${dateName(anchor, { weekday: 'long' })}`;
+  } else if (lastBusinessDay) {
+    on = 'on the last business day';
+  } else if (end_of_month) {
+    on = 'on the last day';
+  } else if (frequency === 'monthly') {
+    on = `on the ${ordinal(day)}`;
+  } else {
+    on = `on ${dateName(anchor, { month: 'long' })} ${day}`;
+  }
+
+  if (frequency === 'yearly' && end_of_month) {
+    on += ` of ${dateName(anchor, { month: 'long' })}`;
+  }
+
+  const shift =
+    weekend_shift === 'none' || lastBusinessDay
+      ? ''
+      : `, moved to the ${weekend_shift === 'before' ? 'Friday before' : 'Monday after'} on weekends`;
+
+  return `${repeat} ${on}${shift}`;
+}
+
+export const emptyBillSchedule = (): BillScheduleForm => ({
+  frequency: 'monthly',
+  interval_count: '1',
+  anchor_date: todayIso(),
+  end_of_month: false,
+  weekend_shift: 'none',
+});
+
+export const toBillSchedule = (form: BillScheduleForm): BillSchedule => ({
+  frequency: form.frequency,
+  interval_count: Math.max(parseInt(form.interval_count, 10) || 1, 1),
+  anchor_date: form.anchor_date,
+  end_of_month: form.end_of_month && (form.frequency === 'monthly' || form.frequency === 'yearly'),
+  weekend_shift: form.weekend_shift,
+});
+
+// What the bill costs per month on average, so weekly and yearly bills can be totalled together
+export function monthlyCost(reminder: Pick<BillReminder, 'amount' | 'frequency' | 'interval_count'>) {
+  if (reminder.frequency === 'once') return 0;
+  return (Number(reminder.amount) * PERIODS_PER_YEAR[reminder.frequency]) / reminder.interval_count / 12;
+}
+
+export function findBillMatch<T extends MatchableTransaction>(
+  reminder: BillReminder,
+  dueOn: string,
+  transactions: T[],
+  usedTransactionIds: Set<string>
+) {
+  const title = reminder.title.trim().toLowerCase();
+  const amount = Number(reminder.amount);
+
+  const candidates = transactions.filter((transaction) => {
+    if (transaction.type !== 'expense' || usedTransactionIds.has(transaction.id)) return false;
+    if (Math.abs(daysBetween(dueOn, transaction.date)) > MATCH_WINDOW_DAYS) return false;
+    if (Math.abs(toHomeAmount(transaction) - amount) > amount * MATCH_AMOUNT_TOLERANCE) return false;
+
+    // Without a category to compare, the description has to mention the bill
+    return reminder.category_id
+      ? transaction.category_id === reminder.category_id
+      : transaction.description.toLowerCase().includes(title);
+  });
+
+  return (
+    candidates.sort(
+      (a, b) =>
+        Math.abs(toHomeAmount(a) - amount) - Math.abs(toHomeAmount(b) - amount) ||
+        Math.abs(daysBetween(dueOn, a.date)) - Math.abs(daysBetween(dueOn, b.date))
+    )[0] ?? null
+  );
+}
+
+export async function autoMatchBillPayments(userId: string, reminders: BillReminder[], payments: BillPayment[]) {
+  const open = reminders
+    .filter((reminder) => reminder.is_active)
+    .map((reminder) => ({ reminder, period: getBillPeriod(reminder, payments) }))
+    .filter(({ period }) => period.status !== 'paid');
+
+  if (open.length === 0) return 0;
+
+  const dueDates = open.map(({ period }) => period.dueOn).sort();
+
+  const [{ data: transactions, error }, { data: dismissals }] = await Promise.all([
+    supabase
+      .from('transactions')
+      .select('id, date, type, amount, exchange_rate, category_id, description')
+      .eq('user_id', userId)
+      .eq('type', 'expense')
+      .gte('date', addDays(dueDates[0], -MATCH_WINDOW_DAYS))
+      .lte('date', addDays(dueDates[dueDates.length - 1], MATCH_WINDOW_DAYS)),
+    supabase.from('bill_match_dismissals').select('reminder_id, transaction_id').eq('user_id', userId),
+  ]);
+
+  if (error || !transactions) return 0;
+
+  // Matches the user unlinked are never made again for the same bill
+  const dismissed = new Set((dismissals ?? []).map((d) => `${d.reminder_id}:${d.transaction_id}`));
+
+  const used = new Set(payments.map((payment) => payment.transaction_id).filter((id): id is string => id !== null));
+  const matches = open.flatMap(({ reminder, period }) => {
+    const candidates = transactions.filter((transaction) => !dismissed.has(`${reminder.id}:${transaction.id}`));
+    const match = findBillMatch(reminder, period.dueOn, candidates, used);
+    if (!match) return [];
+
+    used.add(match.id);
+    return [
+      {
+        user_id: userId,
+        reminder_id: reminder.id,
+        due_on: period.dueOn,
+        transaction_id: match.id,
+        amount: toHomeAmount(match),
+        is_auto_matched: true,
+      },
+    ];
+  });
+
+  if (matches.length === 0) return 0;
+
+  const { data } = await supabase
+    .from('bill_payments')
+    .upsert(matches, { onConflict: 'reminder_id,due_on', ignoreDuplicates: true })
+    .select('id');
+
+  return data?.length ?? 0;
+}
@@ -0,0 +1,228 @@
+import { supabase } from './supabase';
+import { occurrenceDate } from './recurring';
+import { daysBetween, todayIso } from './bills';
+import { loadTransactionTotals, sumTotals } from './reports';
+import type { Database } from './database.types';
+
+export type BudgetAlert = Database['public']['Tables']['budget_alerts']['Row'];
+
+export type BudgetPeriod = 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom';
+
+export interface BudgetSchedule {
+  period: BudgetPeriod;
+  start_date: string;
+  end_date: string | null;
+}
+
+export interface BudgetWindow {
+  start: string;
+  end: string;
+}
+
+export const budgetPeriods: { value: BudgetPeriod; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+// Length of each repeating period, counted in the unit occurrenceDate() steps by
+const periodSteps = {
+  weekly: { frequency: 'weekly', steps: 1 },
+  quarterly: { frequency: 'monthly', steps: 3 },
+  yearly: { frequency: 'monthly', steps: 12 },
+} as const;
+
+// Months as a running count so consecutive months differ by one across year boundaries
+const monthIndex = (year: number, month: number) => year * 12 + (month - 1);
+
+const fromMonthIndex = (index: number) => ({ year: Math.floor(index / 12), month: (index % 12) + 1 });
+
+export const previousMonth = (month: number, year: number) => fromMonthIndex(monthIndex(year, month) - 1);
+
+export function monthRange(month: number, year: number) {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const prefix = `${year}-${String(month).padStart(2, '0')}`;
+  return { firstDay: `${prefix}-01`, lastDay: `${prefix}-${lastDay}` };
+}
+
+const dayBefore = (date: string) => occurrenceDate(date, 'daily', -1);
+
+const monthsBetween = (from: string, to: string) => {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  return (ty - fy) * 12 + (tm - fm) - (td < fd ? 1 : 0);
+};
+
+// The period of a budget that contains `reference`. Repeating budgets count whole periods from
+// their start date; before the start date, the first period applies. Mirrors budget_window() in
+// the database, which uses it to decide when a transaction crosses an alert threshold.
+export function budgetWindow(budget: BudgetSchedule, reference: string): BudgetWindow {
+  if (budget.period === 'custom') {
+    return { start: budget.start_date, end: budget.end_date ?? budget.start_date };
+  }
+
+  if (budget.period === 'monthly') {
+    const [year, month] = budget.start_date.split('-').map(Number);
+    return { start: budget.start_date, end: monthRange(month, year).lastDay };
+  }
+
+  const { frequency, steps } = periodSteps[budget.period];
+  const elapsed =
+    frequency === 'weekly'
+      ? Math.floor(daysBetween(budget.start_date, reference) / 7)
+      : Math.floor(monthsBetween(budget.start_date, reference) / steps);
+  const index = Math.max(elapsed, 0);
+
+  return {
+    start: occurrenceDate(budget.start_date, frequency, index * steps),
+    end: dayBefore(occurrenceDate(budget.start_date, frequency, (index + 1) * steps)),
+  };
+}
+
+// Share of the window that has passed by `today`, from 0 before it starts to 1 after it ends
+export function windowProgress(window: BudgetWindow, today: string) {
+  const length = daysBetween(window.start, window.end) + 1;
+  const elapsed = daysBetween(window.start, today) + 1;
+  return Math.min(Math.max(elapsed / length, 0), 1);
+}
+
+// Budgets that apply to a month, each with its spending in the period shown for that month, plus the
+// month's income. That covers monthly budgets for the month, repeating budgets that have started by
+// its end and custom ranges that overlap it. Repeating budgets show the period containing today, or
+// the one nearest to it within the month. Spending and carried-over money come from budget_spending()
+// in the database.
+export async function loadBudgetsForMonth(userId: string, month: number, year: number) {
+  const { firstDay, lastDay } = monthRange(month, year);
+
+  const { data: budgetData } = await supabase
+    .from('budgets')
+    .select(`
+      *,
+      category:categories (*)
+    `)
+    .eq('user_id', userId)
+    .or(
+      [
+        `and(period.eq.monthly,month.eq.${month},year.eq.${year})`,
+        `and(period.in.(weekly,quarterly,yearly),start_date.lte.${lastDay})`,
+        `and(period.eq.custom,start_date.lte.${lastDay},end_date.gte.${firstDay})`,
+      ].join(',')
+    )
+    .order('start_date');
+
+  if (!budgetData) return { budgets: [], income: 0 };
+
+  // A repeating budget is replaced by a newer one for the same category and period
+  const latest: Record<string, (typeof budgetData)[number]> = {};
+  budgetData.forEach((budget) => {
+    latest[`${budget.category_id}:${budget.period}:${budget.period === 'custom' ? budget.id : ''}`] = budget;
+  });
+  const visible = Object.values(latest);
+
+  const today = todayIso();
+  const reference = today < firstDay ? firstDay : today > lastDay ? lastDay : today;
+
+  const [{ data: spending }, totals] = await Promise.all([
+    supabase.rpc('budget_spending', { budget_ids: visible.map((budget) => budget.id), reference }),
+    loadTransactionTotals(firstDay, lastDay),
+  ]);
+
+  const spendingById = Object.fromEntries((spending ?? []).map((row) => [row.budget_id, row]));
+  const budgets = visible.map((budget) => {
+    const row = spendingById[budget.id];
+    return {
+      ...budget,
+      window: row ? { start: row.window_start, end: row.window_end } : budgetWindow(budget, reference),
+      spent: Number(row?.spent ?? 0),
+      carried_over: Number(row?.carried_over ?? 0),
+    };
+  });
+  const { income } = sumTotals(totals);
+
+  return { budgets, income };
+}
+
+interface BudgetUsage {
+  amount: number;
+  carried_over: number;
+  spent: number;
+}
+
+// What can be spent this period: the budget plus anything carried over, which may be negative
+export const availableFor = (budget: BudgetUsage) => Number(budget.amount) + budget.carried_over;
+
+export const usedPercentage = (budget: BudgetUsage) => {
+  const available = availableFor(budget);
+  if (available > 0) return (budget.spent / available) * 100;
+  return budget.spent > 0 || available < 0 ? 100 : 0;
+};
+
+// Copies the previous month's budgets into categories that have no budget yet this month
+export async function copyPreviousMonthBudgets(userId: string, month: number, year: number) {
+  const previous = previousMonth(month, year);
+
+  const { data: source, error } = await supabase
+    .from('budgets')
+    .select('category_id, amount, rollover, alert_thresholds')
+    .eq('user_id', userId)
+    .eq('period', 'monthly')
+    .eq('month', previous.month)
+    .eq('year', previous.year);
+
+  if (error) return { copied: 0, error };
+  if (!source || source.length === 0) return { copied: 0, error: null };
+
+  const { data, error: copyError } = await supabase
+    .from('budgets')
+    .upsert(
+      source.map((budget) => ({
+        ...budget,
+        user_id: userId,
+        period: 'monthly' as const,
+        start_date: monthRange(month, year).firstDay,
+        month,
+        year,
+      })),
+      { onConflict: 'user_id,category_id,period,month,year', ignoreDuplicates: true }
+    )
+    .select('id');
+
+  return { copied: data?.length ?? 0, error: copyError };
+}
+
+export const DEFAULT_ALERT_THRESHOLDS = [80, 100];
+
+// Reads a list like "50, 80, 100" into sorted, distinct whole percentages
+export function parseThresholds(text: string) {
+  const values = text
+    .split(/[\s,]+/)
+    .map((value) => Math.round(parseFloat(value)))
+    .filter((value) => value > 0);
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+export type BudgetLevel = 'ok' | 'warning' | 'over';
+
+// Where spending stands against the budget's own alert thresholds, so the page agrees with the alerts
+// sent: a warning from the lowest threshold, over from the highest. Without thresholds the defaults apply.
+export function budgetLevel(percentage: number, thresholds: number[]): BudgetLevel {
+  const levels = thresholds.length > 0 ? thresholds : DEFAULT_ALERT_THRESHOLDS;
+  if (percentage >= Math.max(...levels)) return 'over';
+  if (percentage >= Math.min(...levels)) return 'warning';
+  return 'ok';
+}
+
+export async function loadBudgetAlerts(userId: string, budgetIds: string[]) {
+  if (budgetIds.length === 0) return [];
+
+  const { data } = await supabase
+    .from('budget_alerts')
+    .select('*')
+    .eq('user_id', userId)
+    .in('budget_id', budgetIds)
+    .order('created_at', { ascending: false });
+
+  return data ?? [];
+}
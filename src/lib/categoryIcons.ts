@@ -0,0 +1,80 @@
+import {
+  Baby,
+  BookOpen,
+  Briefcase,
+  Car,
+  Circle,
+  Coffee,
+  Dumbbell,
+  FileText,
+  Film,
+  Fuel,
+  Gift,
+  GraduationCap,
+  Heart,
+  Home,
+  Landmark,
+  Laptop,
+  Music,
+  PawPrint,
+  PiggyBank,
+  Plane,
+  Shirt,
+  ShoppingBag,
+  Smartphone,
+  Stethoscope,
+  TrendingUp,
+  Utensils,
+  Wifi,
+  Zap,
+  type LucideIcon,
+} from 'lucide-react';
+
+export const categoryIcons: Record<string, LucideIcon> = {
+  briefcase: Briefcase,
+  laptop: Laptop,
+  'trending-up': TrendingUp,
+  'piggy-bank': PiggyBank,
+  landmark: Landmark,
+  gift: Gift,
+  utensils: Utensils,
+  coffee: Coffee,
+  car: Car,
+  fuel: Fuel,
+  plane: Plane,
+  home: Home,
+  zap: Zap,
+  wifi: Wifi,
+  smartphone: Smartphone,
+  'file-text': FileText,
+  'shopping-bag': ShoppingBag,
+  shirt: Shirt,
+  film: Film,
+  music: Music,
+  heart: Heart,
+  stethoscope: Stethoscope,
+  dumbbell: Dumbbell,
+  'graduation-cap': GraduationCap,
+  'book-open': BookOpen,
+  baby: Baby,
+  'paw-print': PawPrint,
+  circle: Circle,
+};
+
+export const categoryColors = [
+  '#10b981',
+  '#3b82f6',
+  '#6366f1',
+  '#8b5cf6',
+  '#ec4899',
+  '#ef4444',
+  '#f59e0b',
+  '#84cc16',
+  '#14b8a6',
+  '#06b6d4',
+  '#64748b',
+];
+
+export function getCategoryIcon(icon: string): LucideIcon {
+  return categoryIcons[icon] ?? Circle;
+}
@@ -0,0 +1,156 @@
+export type DateFormat =
+  | 'YYYY-MM-DD'
+  | 'YYYY/MM/DD'
+  | 'MM/DD/YYYY'
+  | 'DD/MM/YYYY'
+  | 'MM-DD-YYYY'
+  | 'DD-MM-YYYY'
+  | 'DD.MM.YYYY';
+
+export const dateFormats: DateFormat[] = [
+  'YYYY-MM-DD',
+  'YYYY/MM/DD',
+  'MM/DD/YYYY',
+  'DD/MM/YYYY',
+  'MM-DD-YYYY',
+  'DD-MM-YYYY',
+  'DD.MM.YYYY',
+];
+
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map((r) => r.map((value) => value.trim()))
+    .filter((r) => r.some((value) => value !== ''));
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const candidates = [',', ';', '\t', '|'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+export function parseDate(value: string, format: DateFormat): string | null {
+  const parts = value.trim().split(/[-/.]/);
+  if (parts.length !== 3) return null;
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  switch (format) {
+    case 'YYYY-MM-DD':
+    case 'YYYY/MM/DD':
+      [year, month, day] = parts.map(Number);
+      break;
+    case 'MM/DD/YYYY':
+    case 'MM-DD-YYYY':
+      [month, day, year] = parts.map(Number);
+      break;
+    default:
+      [day, month, year] = parts.map(Number);
+  }
+
+  if (parts[format.startsWith('YYYY') ? 0 : 2].length === 2) {
+    year += 2000;
+  }
+
+  const separator = format.charAt(format.indexOf('YYYY') === 0 ? 4 : 2);
+  if (!value.includes(separator)) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    Number.isNaN(date.getTime()) ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return date.toISOString().split('T')[0];
+}
+
+export function detectDateFormat(values: string[]): DateFormat | null {
+  const samples = values.filter((value) => value.trim() !== '');
+  if (samples.length === 0) return null;
+
+  return dateFormats.find((format) => samples.every((value) => parseDate(value, format) !== null)) ?? null;
+}
+
+export function parseAmount(value: string): number | null {
+  let cleaned = value.trim();
+  if (cleaned === '') return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(cleaned)) {
+    negative = true;
+    cleaned = cleaned.slice(1, -1);
+  }
+  if (cleaned.endsWith('-')) {
+    negative = true;
+    cleaned = cleaned.slice(0, -1);
+  }
+
+  cleaned = cleaned.replace(/[^\d.,-]/g, '');
+  if (cleaned.startsWith('-')) {
+    negative = !negative;
+    cleaned = cleaned.slice(1);
+  }
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma > lastDot && cleaned.length - lastComma - 1 !== 3) {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(cleaned) && !/^\.\d+$/.test(cleaned)) return null;
+
+  const amount = Number(cleaned);
+  return negative ? -amount : amount;
+}
@@ -0,0 +1,43 @@
+export const currencies = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'JPY', name: 'Japanese Yen' },
+  { code: 'CAD', name: 'Canadian Dollar' },
+  { code: 'AUD', name: 'Australian Dollar' },
+  { code: 'INR', name: 'Indian Rupee' },
+  { code: 'CHF', name: 'Swiss Franc' },
+  { code: 'CNY', name: 'Chinese Yuan' },
+  { code: 'MXN', name: 'Mexican Peso' },
+  { code: 'BRL', name: 'Brazilian Real' },
+  { code: 'SEK', name: 'Swedish Krona' },
+];
+
+export const locales = [
+  { code: 'en-US', name: 'English (United States)' },
+  { code: 'en-GB', name: 'English (United Kingdom)' },
+  { code: 'en-IN', name: 'English (India)' },
+  { code: 'de-DE', name: 'Deutsch (Deutschland)' },
+  { code: 'fr-FR', name: 'Français (France)' },
+  { code: 'es-ES', name: 'Español (España)' },
+  { code: 'pt-BR', name: 'Português (Brasil)' },
+  { code: 'ja-JP', name: '日本語 (日本)' },
+];
+
+export interface Convertible {
+  amount: number;
+  exchange_rate?: number | null;
+}
+
+// Amounts are stored in their own currency; exchange_rate is home currency units per unit
+export function toHomeAmount({ amount, exchange_rate }: Convertible) {
+  return Number(amount) * Number(exchange_rate ?? 1);
+}
+
+export function formatMoney(amount: number, currency: string, locale: string) {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${currency} ${Number(amount).toFixed(2)}`;
+  }
+}
@@ -0,0 +1,55 @@
+import { supabase } from './supabase';
+
+export type WidgetId =
+  | 'month_summary'
+  | 'net_worth'
+  | 'budget_health'
+  | 'upcoming_bills'
+  | 'top_categories'
+  | 'goal_progress'
+  | 'cash_flow'
+  | 'recent_transactions'
+  | 'budget_alerts'
+  | 'quick_actions';
+
+export interface WidgetDefinition {
+  id: WidgetId;
+  name: string;
+  description: string;
+  // Wide widgets take the full row instead of half of it
+  wide: boolean;
+}
+
+export const widgetDefinitions: WidgetDefinition[] = [
+  { id: 'month_summary', name: 'Monthly Summary', description: 'Income, expenses and savings with comparisons', wide: true },
+  { id: 'net_worth', name: 'Net Worth', description: 'Balance across all your accounts', wide: false },
+  { id: 'budget_health', name: 'Budget Health', description: "How this month's budgets are holding up", wide: false },
+  { id: 'upcoming_bills', name: 'Upcoming Bills', description: 'Bills due next and anything overdue', wide: false },
+  { id: 'top_categories', name: 'Top Categories', description: 'Where most of the money went this month', wide: false },
+  { id: 'goal_progress', name: 'Savings Goals', description: 'Progress towards your goals', wide: false },
+  { id: 'cash_flow', name: 'Cash Flow', description: 'Money in and out over the last 30 days', wide: true },
+  { id: 'recent_transactions', name: 'Recent Transactions', description: 'Your latest transactions', wide: false },
+  { id: 'budget_alerts', name: 'Budget Alerts', description: 'Budgets that recently passed an alert threshold', wide: false },
+  { id: 'quick_actions', name: 'Quick Actions', description: 'Shortcuts to common tasks', wide: false },
+];
+
+// What the dashboard showed before it could be customized
+export const defaultWidgets: WidgetId[] = [
+  'month_summary',
+  'recent_transactions',
+  'quick_actions',
+  'goal_progress',
+  'budget_alerts',
+];
+
+const isWidgetId = (id: string): id is WidgetId => widgetDefinitions.some((widget) => widget.id === id);
+
+// Unknown ids (from widgets that no longer exist) are dropped rather than failing the whole layout
+export async function loadDashboardLayout(userId: string) {
+  const { data } = await supabase.from('profiles').select('dashboard_widgets').eq('id', userId).maybeSingle();
+
+  return data?.dashboard_widgets ? data.dashboard_widgets.filter(isWidgetId) : defaultWidgets;
+}
+
+export const saveDashboardLayout = (userId: string, widgets: WidgetId[] | null) =>
+  supabase.from('profiles').update({ dashboard_widgets: widgets }).eq('id', userId);
@@ -15,7 +15,16 @@ export interface Database {
           full_name: string
           avatar_url: string | null
           currency: string
+          locale: string
+          large_transaction_threshold: number
+          push_enabled: boolean
+          email_digest_enabled: boolean
+          digest_day: number
+          last_digest_sent_at: string | null
+          zero_based_budgeting: boolean
+          dashboard_widgets: string[] | null
           dark_mode: boolean
+          onboarded_at: string | null
           created_at: string
           updated_at: string
         }
@@ -24,7 +33,16 @@ export interface Database {
           full_name?: string
           avatar_url?: string | null
           currency?: string
+          locale?: string
+          large_transaction_threshold?: number
+          push_enabled?: boolean
+          email_digest_enabled?: boolean
+          digest_day?: number
+          last_digest_sent_at?: string | null
+          zero_based_budgeting?: boolean
+          dashboard_widgets?: string[] | null
           dark_mode?: boolean
+          onboarded_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -33,10 +51,20 @@ export interface Database {
           full_name?: string
           avatar_url?: string | null
           currency?: string
+          locale?: string
+          large_transaction_threshold?: number
+          push_enabled?: boolean
+          email_digest_enabled?: boolean
+          digest_day?: number
+          last_digest_sent_at?: string | null
+          zero_based_budgeting?: boolean
+          dashboard_widgets?: string[] | null
           dark_mode?: boolean
+          onboarded_at?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       categories: {
         Row: {
@@ -66,38 +94,235 @@ export interface Database {
           color?: string
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'categories_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      accounts: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          type: 'checking' | 'savings' | 'credit_card' | 'cash'
+          opening_balance: number
+          is_archived: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          type: 'checking' | 'savings' | 'credit_card' | 'cash'
+          opening_balance?: number
+          is_archived?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          type?: 'checking' | 'savings' | 'credit_card' | 'cash'
+          opening_balance?: number
+          is_archived?: boolean
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'accounts_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
       }
       transactions: {
         Row: {
           id: string
           user_id: string
-          category_id: string
+          category_id: string | null
+          account_id: string | null
+          transfer_account_id: string | null
           amount: number
-          type: 'income' | 'expense'
+          type: 'income' | 'expense' | 'transfer'
           description: string
           date: string
+          external_id: string | null
+          currency: string
+          exchange_rate: number
+          recurring_id: string | null
+          occurrence_date: string | null
+          goal_id: string | null
           created_at: string
         }
         Insert: {
           id?: string
           user_id: string
+          category_id?: string | null
+          account_id?: string | null
+          transfer_account_id?: string | null
+          amount: number
+          type: 'income' | 'expense' | 'transfer'
+          description?: string
+          date?: string
+          external_id?: string | null
+          currency?: string
+          exchange_rate?: number
+          recurring_id?: string | null
+          occurrence_date?: string | null
+          goal_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          category_id?: string | null
+          account_id?: string | null
+          transfer_account_id?: string | null
+          amount?: number
+          type?: 'income' | 'expense' | 'transfer'
+          description?: string
+          date?: string
+          external_id?: string | null
+          currency?: string
+          exchange_rate?: number
+          recurring_id?: string | null
+          occurrence_date?: string | null
+          goal_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'transactions_account_id_fkey'
+            columns: ['account_id']
+            isOneToOne: false
+            referencedRelation: 'accounts'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'transactions_goal_id_fkey'
+            columns: ['goal_id']
+            isOneToOne: false
+            referencedRelation: 'goals'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'transactions_recurring_id_fkey'
+            columns: ['recurring_id']
+            isOneToOne: false
+            referencedRelation: 'recurring_transactions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'transactions_transfer_account_id_fkey'
+            columns: ['transfer_account_id']
+            isOneToOne: false
+            referencedRelation: 'accounts'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'transactions_category_id_fkey'
+            columns: ['category_id']
+            isOneToOne: false
+            referencedRelation: 'categories'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'transactions_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      recurring_transactions: {
+        Row: {
+          id: string
+          user_id: string
           category_id: string
+          account_id: string | null
+          type: 'income' | 'expense'
           amount: number
+          currency: string
+          exchange_rate: number
+          description: string
+          frequency: 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'yearly'
+          start_date: string
+          end_date: string | null
+          occurrence_limit: number | null
+          occurrences_generated: number
+          next_date: string | null
+          is_paused: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          category_id: string
+          account_id?: string | null
           type: 'income' | 'expense'
+          amount: number
+          currency?: string
+          exchange_rate?: number
           description?: string
-          date?: string
+          frequency: 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'yearly'
+          start_date: string
+          end_date?: string | null
+          occurrence_limit?: number | null
+          occurrences_generated?: number
+          next_date?: string | null
+          is_paused?: boolean
           created_at?: string
         }
         Update: {
           id?: string
           user_id?: string
           category_id?: string
-          amount?: number
+          account_id?: string | null
           type?: 'income' | 'expense'
+          amount?: number
+          currency?: string
+          exchange_rate?: number
           description?: string
-          date?: string
+          frequency?: 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'yearly'
+          start_date?: string
+          end_date?: string | null
+          occurrence_limit?: number | null
+          occurrences_generated?: number
+          next_date?: string | null
+          is_paused?: boolean
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'recurring_transactions_account_id_fkey'
+            columns: ['account_id']
+            isOneToOne: false
+            referencedRelation: 'accounts'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'recurring_transactions_category_id_fkey'
+            columns: ['category_id']
+            isOneToOne: false
+            referencedRelation: 'categories'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'recurring_transactions_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
       }
       budgets: {
         Row: {
@@ -107,6 +332,11 @@ export interface Database {
           amount: number
           month: number
           year: number
+          rollover: boolean
+          period: 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom'
+          start_date: string
+          end_date: string | null
+          alert_thresholds: number[]
           created_at: string
         }
         Insert: {
@@ -116,6 +346,11 @@ export interface Database {
           amount: number
           month: number
           year: number
+          rollover?: boolean
+          period?: 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom'
+          start_date: string
+          end_date?: string | null
+          alert_thresholds?: number[]
           created_at?: string
         }
         Update: {
@@ -125,8 +360,151 @@ export interface Database {
           amount?: number
           month?: number
           year?: number
+          rollover?: boolean
+          period?: 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom'
+          start_date?: string
+          end_date?: string | null
+          alert_thresholds?: number[]
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'budgets_category_id_fkey'
+            columns: ['category_id']
+            isOneToOne: false
+            referencedRelation: 'categories'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'budgets_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      budget_alerts: {
+        Row: {
+          id: string
+          user_id: string
+          budget_id: string
+          transaction_id: string | null
+          threshold: number
+          window_start: string
+          window_end: string
+          spent: number
+          available: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          budget_id: string
+          transaction_id?: string | null
+          threshold: number
+          window_start: string
+          window_end: string
+          spent: number
+          available: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          budget_id?: string
+          transaction_id?: string | null
+          threshold?: number
+          window_start?: string
+          window_end?: string
+          spent?: number
+          available?: number
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'budget_alerts_budget_id_fkey'
+            columns: ['budget_id']
+            isOneToOne: false
+            referencedRelation: 'budgets'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'budget_alerts_transaction_id_fkey'
+            columns: ['transaction_id']
+            isOneToOne: false
+            referencedRelation: 'transactions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'budget_alerts_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      goals: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          target_amount: number
+          target_date: string | null
+          account_id: string | null
+          category_id: string | null
+          color: string
+          is_archived: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          target_amount: number
+          target_date?: string | null
+          account_id?: string | null
+          category_id?: string | null
+          color?: string
+          is_archived?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          target_amount?: number
+          target_date?: string | null
+          account_id?: string | null
+          category_id?: string | null
+          color?: string
+          is_archived?: boolean
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'goals_account_id_fkey'
+            columns: ['account_id']
+            isOneToOne: false
+            referencedRelation: 'accounts'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'goals_category_id_fkey'
+            columns: ['category_id']
+            isOneToOne: false
+            referencedRelation: 'categories'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'goals_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
       }
       bill_reminders: {
         Row: {
@@ -135,8 +513,11 @@ export interface Database {
           category_id: string | null
           title: string
           amount: number
-          due_date: number
-          is_recurring: boolean
+          frequency: 'once' | 'weekly' | 'monthly' | 'yearly'
+          interval_count: number
+          anchor_date: string
+          end_of_month: boolean
+          weekend_shift: 'none' | 'before' | 'after'
           is_active: boolean
           created_at: string
         }
@@ -146,8 +527,11 @@ export interface Database {
           category_id?: string | null
           title: string
           amount: number
-          due_date: number
-          is_recurring?: boolean
+          frequency?: 'once' | 'weekly' | 'monthly' | 'yearly'
+          interval_count?: number
+          anchor_date: string
+          end_of_month?: boolean
+          weekend_shift?: 'none' | 'before' | 'after'
           is_active?: boolean
           created_at?: string
         }
@@ -157,12 +541,372 @@ export interface Database {
           category_id?: string | null
           title?: string
           amount?: number
-          due_date?: number
-          is_recurring?: boolean
+          frequency?: 'once' | 'weekly' | 'monthly' | 'yearly'
+          interval_count?: number
+          anchor_date?: string
+          end_of_month?: boolean
+          weekend_shift?: 'none' | 'before' | 'after'
           is_active?: boolean
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'bill_reminders_category_id_fkey'
+            columns: ['category_id']
+            isOneToOne: false
+            referencedRelation: 'categories'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'bill_reminders_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
       }
+      bill_payments: {
+        Row: {
+          id: string
+          user_id: string
+          reminder_id: string
+          due_on: string
+          transaction_id: string | null
+          amount: number
+          is_auto_matched: boolean
+          paid_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          reminder_id: string
+          due_on: string
+          transaction_id?: string | null
+          amount: number
+          is_auto_matched?: boolean
+          paid_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          reminder_id?: string
+          due_on?: string
+          transaction_id?: string | null
+          amount?: number
+          is_auto_matched?: boolean
+          paid_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'bill_payments_reminder_id_fkey'
+            columns: ['reminder_id']
+            isOneToOne: false
+            referencedRelation: 'bill_reminders'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'bill_payments_transaction_id_fkey'
+            columns: ['transaction_id']
+            isOneToOne: true
+            referencedRelation: 'transactions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'bill_payments_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      bill_match_dismissals: {
+        Row: {
+          id: string
+          user_id: string
+          reminder_id: string
+          transaction_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          reminder_id: string
+          transaction_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          reminder_id?: string
+          transaction_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'bill_match_dismissals_reminder_id_fkey'
+            columns: ['reminder_id']
+            isOneToOne: false
+            referencedRelation: 'bill_reminders'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'bill_match_dismissals_transaction_id_fkey'
+            columns: ['transaction_id']
+            isOneToOne: false
+            referencedRelation: 'transactions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'bill_match_dismissals_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          kind: 'bill_due' | 'bill_overdue' | 'budget_exceeded' | 'budget_threshold' | 'large_transaction'
+          title: string
+          amount: number | null
+          event_date: string | null
+          link: string
+          source_key: string
+          read_at: string | null
+          dismissed_at: string | null
+          snoozed_until: string | null
+          pushed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          kind: 'bill_due' | 'bill_overdue' | 'budget_exceeded' | 'budget_threshold' | 'large_transaction'
+          title: string
+          amount?: number | null
+          event_date?: string | null
+          link: string
+          source_key: string
+          read_at?: string | null
+          dismissed_at?: string | null
+          snoozed_until?: string | null
+          pushed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          kind?: 'bill_due' | 'bill_overdue' | 'budget_exceeded' | 'budget_threshold' | 'large_transaction'
+          title?: string
+          amount?: number | null
+          event_date?: string | null
+          link?: string
+          source_key?: string
+          read_at?: string | null
+          dismissed_at?: string | null
+          snoozed_until?: string | null
+          pushed_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'notifications_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      push_subscriptions: {
+        Row: {
+          id: string
+          user_id: string
+          endpoint: string
+          p256dh: string
+          auth: string
+          user_agent: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          endpoint: string
+          p256dh: string
+          auth: string
+          user_agent?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          endpoint?: string
+          p256dh?: string
+          auth?: string
+          user_agent?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'push_subscriptions_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          id: string
+          user_id: string
+          currency: string
+          rate: number
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          currency: string
+          rate: number
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          currency?: string
+          rate?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'exchange_rates_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      account_balances: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          account_id: string
+          balance: number
+          transaction_count: number
+        }[]
+      }
+      budget_carry_over: {
+        Args: {
+          user_id: string
+          category_id: string
+          month: number
+          year: number
+        }
+        Returns: number
+      }
+      budget_spending: {
+        Args: {
+          budget_ids: string[]
+          reference: string
+        }
+        Returns: {
+          budget_id: string
+          window_start: string
+          window_end: string
+          spent: number
+          carried_over: number
+        }[]
+      }
+      budget_window: {
+        Args: {
+          period: string
+          start_date: string
+          end_date: string | null
+          reference: string
+        }
+        Returns: unknown
+      }
+      description_totals: {
+        Args: {
+          category_id: string | null
+          from_date: string
+          to_date: string
+          max_rows?: number
+        }
+        Returns: {
+          description: string
+          total: number
+          transaction_count: number
+        }[]
+      }
+      ensure_user_onboarded: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      generate_recurring_transactions: {
+        Args: {
+          up_to?: string
+        }
+        Returns: number
+      }
+      merge_categories: {
+        Args: {
+          source_category_id: string
+          target_category_id: string
+        }
+        Returns: undefined
+      }
+      recurring_occurrence_date: {
+        Args: {
+          start_date: string
+          frequency: string
+          n: number
+        }
+        Returns: string
+      }
+      save_push_subscription: {
+        Args: {
+          push_endpoint: string
+          push_p256dh: string
+          push_auth: string
+          push_user_agent?: string
+        }
+        Returns: undefined
+      }
+      transaction_totals: {
+        Args: {
+          from_date: string
+          to_date: string
+          bucket?: string
+        }
+        Returns: {
+          period_start: string
+          type: 'income' | 'expense'
+          category_id: string | null
+          category_name: string | null
+          category_icon: string | null
+          category_color: string | null
+          total: number
+          transaction_count: number
+        }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
     }
   }
 }
\ No newline at end of file
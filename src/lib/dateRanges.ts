@@ -0,0 +1,108 @@
+import { todayIso } from './bills';
+import { monthRange, previousMonth } from './budgets';
+
+export type RangePreset = 'this_month' | 'last_month' | 'ytd' | 'last_12_months' | 'custom';
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface SelectedRange {
+  preset: RangePreset;
+  range: DateRange;
+}
+
+export const rangePresets: { value: RangePreset; label: string }[] = [
+  { value: 'this_month', label: 'This month' },
+  { value: 'last_month', label: 'Last month' },
+  { value: 'ytd', label: 'Year to date' },
+  { value: 'last_12_months', label: 'Last 12 months' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+const isPreset = (value: string | null): value is RangePreset =>
+  rangePresets.some((preset) => preset.value === value);
+
+const isIsoDate = (value: string | null): value is string =>
+  !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+const toRange = ({ firstDay, lastDay }: { firstDay: string; lastDay: string }) => ({ from: firstDay, to: lastDay });
+
+// The dates a preset covers as of `today`. Presets ending in the current month run to its last day,
+// so scheduled transactions later in the month are included, like everywhere else in the app.
+export function presetRange(preset: Exclude<RangePreset, 'custom'>, today = todayIso()): DateRange {
+  const [year, month] = today.split('-').map(Number);
+
+  switch (preset) {
+    case 'this_month':
+      return toRange(monthRange(month, year));
+    case 'last_month': {
+      const previous = previousMonth(month, year);
+      return toRange(monthRange(previous.month, previous.year));
+    }
+    case 'ytd':
+      return { from: `${year}-01-01`, to: today };
+    case 'last_12_months': {
+      const start = new Date(Date.UTC(year, month - 12, 1)).toISOString().split('T')[0];
+      return { from: start, to: monthRange(month, year).lastDay };
+    }
+  }
+}
+
+// Presets are kept in the URL by name, so a bookmarked "last month" is always relative to today.
+// Anything missing or malformed falls back to this month.
+export function readRange(search: string): SelectedRange {
+  const params = new URLSearchParams(search);
+  const period = params.get('period');
+  const from = params.get('from');
+  const to = params.get('to');
+
+  if (period === 'custom' && isIsoDate(from) && isIsoDate(to) && from <= to) {
+    return { preset: 'custom', range: { from, to } };
+  }
+
+  const preset = isPreset(period) && period !== 'custom' ? period : 'this_month';
+  return { preset, range: presetRange(preset) };
+}
+
+// Replaces only the range parameters, keeping ?page= and anything else already in the URL
+export function writeRange({ preset, range }: SelectedRange) {
+  const params = new URLSearchParams(window.location.search);
+  params.set('period', preset);
+
+  if (preset === 'custom') {
+    params.set('from', range.from);
+    params.set('to', range.to);
+  } else {
+    params.delete('from');
+    params.delete('to');
+  }
+
+  window.history.replaceState(null, '', `?${params}`);
+}
+
+// The calendar months a range touches, each clipped to the range
+export function monthsInRange(range: DateRange) {
+  const months: { month: number; year: number; from: string; to: string }[] = [];
+  let [year, month] = range.from.split('-').map(Number);
+  let { firstDay, lastDay } = monthRange(month, year);
+
+  while (firstDay <= range.to) {
+    months.push({
+      month,
+      year,
+      from: firstDay < range.from ? range.from : firstDay,
+      to: lastDay > range.to ? range.to : lastDay,
+    });
+
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+    ({ firstDay, lastDay } = monthRange(month, year));
+  }
+
+  return months;
+}
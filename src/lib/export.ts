@@ -0,0 +1,141 @@
+export type ExportFormat = 'csv' | 'json' | 'pdf';
+
+export type ExportValue = string | number | boolean | null;
+
+export interface ExportTable {
+  heading: string;
+  columns: string[];
+  rows: ExportValue[][];
+}
+
+export interface StatementReport {
+  title: string;
+  period: string;
+  summary: [string, string][];
+  tables: ExportTable[];
+}
+
+const escapeCsvValue = (value: ExportValue) => {
+  if (value === null) return '';
+  if (typeof value !== 'string') return String(value);
+
+  // Keep spreadsheet apps from evaluating text cells as formulas
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export function toCsv(columns: string[], rows: ExportValue[][]) {
+  return [columns, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function exportFileName(name: string, extension: string) {
+  return `${name}-${new Date().toISOString().split('T')[0]}.${extension}`;
+}
+
+export function downloadCsv(name: string, table: Pick<ExportTable, 'columns' | 'rows'>) {
+  downloadFile(exportFileName(name, 'csv'), toCsv(table.columns, table.rows), 'text/csv;charset=utf-8');
+}
+
+export function downloadCsvTables(name: string, tables: ExportTable[]) {
+  const content = tables
+    .map((table) => `${escapeCsvValue(table.heading)}\r\n${toCsv(table.columns, table.rows)}`)
+    .join('\r\n\r\n');
+  downloadFile(exportFileName(name, 'csv'), content, 'text/csv;charset=utf-8');
+}
+
+export function downloadJson(name: string, data: unknown) {
+  downloadFile(exportFileName(name, 'json'), JSON.stringify(data, null, 2), 'application/json');
+}
+
+const escapeHtml = (value: ExportValue) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export function buildStatementHtml(report: StatementReport) {
+  const summary = report.summary
+    .map(
+      ([label, value]) =>
+        `<div class="stat"><div class="label">${escapeHtml(label)}</div><div class="value">${escapeHtml(value)}</div></div>`
+    )
+    .join('');
+
+  const tables = report.tables
+    .map(
+      (table) => `
+        <h2>${escapeHtml(table.heading)}</h2>
+        ${
+          table.rows.length === 0
+            ? '<p class="empty">Nothing to show for this period.</p>'
+            : `<table>
+                <thead><tr>${table.columns.map((column) => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead>
+                <tbody>${table.rows
+                  .map((row) => `<tr>${row.map((value) => `<td>${escapeHtml(value)}</td>`).join('')}</tr>`)
+                  .join('')}</tbody>
+              </table>`
+        }`
+    )
+    .join('');
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>${escapeHtml(report.title)} - ${escapeHtml(report.period)}</title>
+    <style>
+      body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #0f172a; margin: 40px; }
+      header { border-bottom: 2px solid #2563eb; padding-bottom: 16px; margin-bottom: 24px; }
+      h1 { margin: 0; font-size: 24px; }
+      .period { color: #475569; margin-top: 4px; }
+      .summary { display: flex; gap: 16px; margin-bottom: 24px; }
+      .stat { flex: 1; background: #f1f5f9; border-radius: 8px; padding: 12px 16px; }
+      .label { font-size: 12px; color: #475569; text-transform: uppercase; letter-spacing: 0.05em; }
+      .value { font-size: 18px; font-weight: 700; margin-top: 4px; }
+      h2 { font-size: 16px; margin: 24px 0 8px; }
+      table { width: 100%; border-collapse: collapse; font-size: 12px; }
+      th { text-align: left; background: #f8fafc; border-bottom: 1px solid #cbd5e1; padding: 6px 8px; }
+      td { border-bottom: 1px solid #e2e8f0; padding: 6px 8px; }
+      .empty { color: #64748b; font-size: 12px; }
+      footer { margin-top: 32px; font-size: 11px; color: #94a3b8; }
+      @media print { body { margin: 0; } }
+    </style>
+  </head>
+  <body>
+    <header>
+      <h1>${escapeHtml(report.title)}</h1>
+      <div class="period">${escapeHtml(report.period)}</div>
+    </header>
+    <div class="summary">${summary}</div>
+    ${tables}
+    <footer>Generated by FinTrack on ${escapeHtml(new Date().toLocaleString())}</footer>
+  </body>
+</html>`;
+}
+
+export function printStatement(report: StatementReport) {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    alert('Allow pop-ups for this site to print or save the statement as PDF.');
+    return;
+  }
+
+  printWindow.document.open();
+  printWindow.document.write(buildStatementHtml(report));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
@@ -0,0 +1,93 @@
+import { supabase } from './supabase';
+import { toHomeAmount } from './currency';
+import { daysBetween } from './bills';
+import type { Database } from './database.types';
+
+export type Goal = Database['public']['Tables']['goals']['Row'];
+
+export type GoalStatus = 'completed' | 'on_track' | 'behind' | 'overdue' | 'no_date';
+
+export interface GoalContribution {
+  id: string;
+  goal_id: string | null;
+  type: 'income' | 'expense' | 'transfer';
+  date: string;
+  amount: number;
+  currency: string;
+  exchange_rate: number;
+  description: string;
+}
+
+export interface GoalProgress {
+  saved: number;
+  remaining: number;
+  percentage: number;
+  // Months left until the target date, counting the current one; null without a target date
+  monthsLeft: number | null;
+  // What has to be saved each month from now on to reach the target on time
+  monthlyNeeded: number | null;
+  status: GoalStatus;
+}
+
+export const goalStatuses: Record<GoalStatus, { label: string; className: string }> = {
+  completed: { label: 'Reached', className: 'bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-400' },
+  on_track: { label: 'On track', className: 'bg-blue-100 dark:bg-blue-900/20 text-blue-700 dark:text-blue-400' },
+  behind: { label: 'Behind', className: 'bg-amber-100 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400' },
+  overdue: { label: 'Past target date', className: 'bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-400' },
+  no_date: { label: 'No target date', className: 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300' },
+};
+
+const monthsUntil = (from: string, to: string) => {
+  const [fy, fm] = from.split('-').map(Number);
+  const [ty, tm] = to.split('-').map(Number);
+  return (ty - fy) * 12 + (tm - fm) + 1;
+};
+
+export function goalProgress(goal: Goal, saved: number, today = new Date().toISOString().split('T')[0]): GoalProgress {
+  const target = Number(goal.target_amount);
+  const remaining = Math.max(target - saved, 0);
+  const percentage = target > 0 ? Math.min((saved / target) * 100, 100) : 0;
+  const base = { saved, remaining, percentage, monthsLeft: null, monthlyNeeded: null };
+
+  if (remaining === 0) return { ...base, status: 'completed' };
+  if (!goal.target_date) return { ...base, status: 'no_date' };
+  if (today > goal.target_date) return { ...base, status: 'overdue' };
+
+  const monthsLeft = Math.max(monthsUntil(today, goal.target_date), 1);
+
+  // On track means saved at least as much as steady saving since the goal was created would have
+  const start = goal.created_at.split('T')[0];
+  const totalDays = Math.max(daysBetween(start, goal.target_date), 1);
+  const expected = target * Math.min(Math.max(daysBetween(start, today) / totalDays, 0), 1);
+
+  return {
+    ...base,
+    monthsLeft,
+    monthlyNeeded: remaining / monthsLeft,
+    status: saved >= expected ? 'on_track' : 'behind',
+  };
+}
+
+// Goals with every transaction tagged as a contribution to them
+export async function loadGoals(userId: string) {
+  const [{ data: goals }, { data: contributions }] = await Promise.all([
+    supabase.from('goals').select('*').eq('user_id', userId).order('created_at'),
+    supabase
+      .from('transactions')
+      .select('id, goal_id, type, date, amount, currency, exchange_rate, description')
+      .eq('user_id', userId)
+      .not('goal_id', 'is', null)
+      .order('date', { ascending: false }),
+  ]);
+
+  return { goals: goals ?? [], contributions: (contributions ?? []) as GoalContribution[] };
+}
+
+export function savedByGoal(contributions: GoalContribution[]) {
+  const saved: Record<string, number> = {};
+  contributions.forEach((contribution) => {
+    if (!contribution.goal_id) return;
+    saved[contribution.goal_id] = (saved[contribution.goal_id] || 0) + toHomeAmount(contribution);
+  });
+  return saved;
+}
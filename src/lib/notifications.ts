@@ -0,0 +1,142 @@
+import { supabase } from './supabase';
+import { toHomeAmount } from './currency';
+import { getBillPeriod } from './bills';
+import type { Database } from './database.types';
+
+export type AppNotification = Database['public']['Tables']['notifications']['Row'];
+
+export type NotificationKind = AppNotification['kind'];
+
+type NotificationDraft = Pick<AppNotification, 'kind' | 'title' | 'amount' | 'event_date' | 'link' | 'source_key'>;
+
+// Pages each kind of notification opens
+export const notificationLinks: Record<NotificationKind, string> = {
+  bill_due: 'reminders',
+  bill_overdue: 'reminders',
+  budget_exceeded: 'budget',
+  budget_threshold: 'budget',
+  large_transaction: 'transactions',
+};
+
+// Kinds that describe a state rather than an event; they are resolved once the state no longer holds.
+// budget_exceeded is no longer derived (the database records budget_threshold alerts as
+// transactions come in), so any left over are resolved on the next sync.
+const resolvableKinds: NotificationKind[] = ['bill_due', 'bill_overdue', 'budget_exceeded'];
+
+// How soon before its due date a bill shows up
+const BILL_DUE_NOTICE_DAYS = 3;
+
+// How far back a transaction can be and still raise a large transaction notification
+const LARGE_TRANSACTION_LOOKBACK_DAYS = 7;
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toISOString().split('T')[0];
+};
+
+async function billNotifications(userId: string): Promise<NotificationDraft[]> {
+  const [{ data: reminders }, { data: payments }] = await Promise.all([
+    supabase.from('bill_reminders').select('*').eq('user_id', userId).eq('is_active', true),
+    supabase.from('bill_payments').select('*').eq('user_id', userId),
+  ]);
+
+  return (reminders ?? []).flatMap((reminder) => {
+    const { status, dueOn, daysUntil } = getBillPeriod(reminder, payments ?? []);
+    if (status === 'paid' || (status !== 'overdue' && daysUntil > BILL_DUE_NOTICE_DAYS)) return [];
+
+    const kind = status === 'overdue' ? 'bill_overdue' : 'bill_due';
+    return [
+      {
+        kind,
+        title: reminder.title,
+        amount: Number(reminder.amount),
+        event_date: dueOn,
+        link: notificationLinks[kind],
+        source_key: `${kind}:${reminder.id}:${dueOn}`,
+      },
+    ];
+  });
+}
+
+async function largeTransactionNotifications(userId: string): Promise<NotificationDraft[]> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('large_transaction_threshold')
+    .eq('id', userId)
+    .maybeSingle();
+
+  const threshold = Number(profile?.large_transaction_threshold ?? 0);
+  if (threshold <= 0) return [];
+
+  const { data: transactions } = await supabase
+    .from('transactions')
+    .select('id, date, type, amount, exchange_rate, description')
+    .eq('user_id', userId)
+    .in('type', ['income', 'expense'])
+    .gte('date', daysAgo(LARGE_TRANSACTION_LOOKBACK_DAYS));
+
+  return (transactions ?? [])
+    .filter((transaction) => toHomeAmount(transaction) >= threshold)
+    .map((transaction) => ({
+      kind: 'large_transaction' as const,
+      title: transaction.description || (transaction.type === 'income' ? 'Income' : 'Expense'),
+      amount: toHomeAmount(transaction),
+      event_date: transaction.date,
+      link: notificationLinks.large_transaction,
+      source_key: `large_transaction:${transaction.id}`,
+    }));
+}
+
+// Derives notifications from the user's data, records new ones and resolves those that no longer apply
+export async function syncNotifications(userId: string) {
+  const drafts = (
+    await Promise.all([
+      billNotifications(userId),
+      largeTransactionNotifications(userId),
+    ])
+  ).flat();
+
+  if (drafts.length > 0) {
+    await supabase.from('notifications').upsert(
+      drafts.map((draft) => ({ ...draft, user_id: userId })),
+      { onConflict: 'user_id,source_key', ignoreDuplicates: true }
+    );
+  }
+
+  const current = drafts.map((draft) => draft.source_key);
+  let stale = supabase
+    .from('notifications')
+    .update({ dismissed_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .in('kind', resolvableKinds)
+    .is('dismissed_at', null);
+
+  if (current.length > 0) {
+    stale = stale.not('source_key', 'in', `(${current.map((key) => `"${key}"`).join(',')})`);
+  }
+
+  await stale;
+}
+
+export async function loadNotifications(userId: string) {
+  const { data } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .is('dismissed_at', null)
+    .or(`snoozed_until.is.null,snoozed_until.lte.${new Date().toISOString()}`)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  return data ?? [];
+}
+
+export const markNotificationsRead = (ids: string[]) =>
+  supabase.from('notifications').update({ read_at: new Date().toISOString() }).in('id', ids);
+
+export const dismissNotification = (id: string) =>
+  supabase.from('notifications').update({ dismissed_at: new Date().toISOString() }).eq('id', id);
+
+export const snoozeNotification = (id: string, until: Date) =>
+  supabase.from('notifications').update({ snoozed_until: until.toISOString(), read_at: null }).eq('id', id);
@@ -0,0 +1,66 @@
+import { supabase } from './supabase';
+
+const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export const isPushSupported = () =>
+  Boolean(vapidPublicKey) && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// The push service wants the VAPID key as raw bytes rather than base64url
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+const registerServiceWorker = () => navigator.serviceWorker.register('/sw.js');
+
+export async function getPushSubscription() {
+  if (!isPushSupported()) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration('/sw.js');
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+export async function subscribeToPush() {
+  if (!isPushSupported() || !vapidPublicKey) {
+    return { error: 'Push notifications are not supported in this browser.' };
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    return { error: 'Notifications are blocked for this site. Allow them in your browser settings.' };
+  }
+
+  const registration = await registerServiceWorker();
+  await navigator.serviceWorker.ready;
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
+    }));
+
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys?.auth) {
+    return { error: 'The browser returned an incomplete push subscription.' };
+  }
+
+  // Goes through an RPC so an endpoint still registered to whoever used this browser before is taken over
+  const { error } = await supabase.rpc('save_push_subscription', {
+    push_endpoint: endpoint,
+    push_p256dh: keys.p256dh,
+    push_auth: keys.auth,
+    push_user_agent: navigator.userAgent,
+  });
+
+  return { error: error?.message ?? null };
+}
+
+// Also run on sign-out, so the next person to use this browser doesn't get the previous user's pushes
+export async function unsubscribeFromPush() {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+  await subscription.unsubscribe();
+}
@@ -0,0 +1,86 @@
+import { supabase } from './supabase';
+import { occurrenceDate, toIsoDate, type Frequency } from '../../supabase/functions/_shared/schedule';
+
+export { occurrenceDate, type Frequency } from '../../supabase/functions/_shared/schedule';
+
+export interface RecurringSchedule {
+  frequency: Frequency;
+  start_date: string;
+  end_date: string | null;
+  occurrence_limit: number | null;
+}
+
+export interface RecurringTransaction extends RecurringSchedule {
+  id: string;
+  type: 'income' | 'expense';
+  amount: number;
+  currency: string;
+  exchange_rate: number;
+  description: string;
+  category_id: string;
+  account_id: string | null;
+  occurrences_generated: number;
+  next_date: string | null;
+  is_paused: boolean;
+  category: { name: string; color: string } | null;
+}
+
+export type RecurrenceEnd = 'never' | 'on' | 'after';
+
+export interface RecurrenceForm {
+  frequency: Frequency;
+  ends: RecurrenceEnd;
+  end_date: string;
+  count: string;
+}
+
+export const emptyRecurrence = (): RecurrenceForm => ({
+  frequency: 'monthly',
+  ends: 'never',
+  end_date: '',
+  count: '12',
+});
+
+export const frequencies: { value: Frequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+const isWithinSchedule = (schedule: RecurringSchedule, date: string, n: number) =>
+  (schedule.end_date === null || date <= schedule.end_date) &&
+  (schedule.occurrence_limit === null || n < schedule.occurrence_limit);
+
+export function firstOccurrenceOnOrAfter(schedule: RecurringSchedule, date: string) {
+  let n = 0;
+  let occurrence = schedule.start_date;
+
+  while (occurrence < date) {
+    n += 1;
+    occurrence = occurrenceDate(schedule.start_date, schedule.frequency, n);
+  }
+
+  return isWithinSchedule(schedule, occurrence, n) ? { n, date: occurrence } : null;
+}
+
+export function describeSchedule(schedule: RecurringSchedule) {
+  const label = frequencies.find((option) => option.value === schedule.frequency)?.label ?? schedule.frequency;
+
+  if (schedule.occurrence_limit !== null) {
+    return `${label}, ${schedule.occurrence_limit} time${schedule.occurrence_limit === 1 ? '' : 's'}`;
+  }
+  if (schedule.end_date !== null) {
+    return `${label} until ${schedule.end_date}`;
+  }
+  return label;
+}
+
+export async function generateRecurringTransactions() {
+  const { data, error } = await supabase.rpc('generate_recurring_transactions', {
+    up_to: toIsoDate(new Date()),
+  });
+
+  return { created: data ?? 0, error };
+}
@@ -0,0 +1,97 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type TotalsBucket = 'day' | 'week' | 'month' | 'year';
+
+// One bucket's total for a type and category, already in the home currency
+export type TransactionTotal = Database['public']['Functions']['transaction_totals']['Returns'][number];
+
+export interface Totals {
+  income: number;
+  expenses: number;
+  savings: number;
+}
+
+export interface CategoryTotal {
+  categoryId: string | null;
+  name: string;
+  icon: string;
+  color: string;
+  amount: number;
+}
+
+// Income and expense totals for the signed-in user between two dates (inclusive), summed by the
+// database per bucket, type and category
+export async function loadTransactionTotals(from: string, to: string, bucket: TotalsBucket = 'month') {
+  const { data } = await supabase.rpc('transaction_totals', { from_date: from, to_date: to, bucket });
+
+  return (data ?? []).map((row) => ({ ...row, total: Number(row.total) }));
+}
+
+// A category's largest expenses between two dates (inclusive), grouped by description ignoring
+// case and surrounding spaces; a null category is uncategorized
+export async function loadDescriptionTotals(categoryId: string | null, from: string, to: string, limit = 5) {
+  const { data } = await supabase.rpc('description_totals', {
+    category_id: categoryId,
+    from_date: from,
+    to_date: to,
+    max_rows: limit,
+  });
+
+  return (data ?? []).map((row) => ({ ...row, total: Number(row.total) }));
+}
+
+export function sumTotals(rows: TransactionTotal[]): Totals {
+  const income = rows.filter((row) => row.type === 'income').reduce((sum, row) => sum + row.total, 0);
+  const expenses = rows.filter((row) => row.type === 'expense').reduce((sum, row) => sum + row.total, 0);
+  return { income, expenses, savings: income - expenses };
+}
+
+// Totals for each bucket, keyed by the bucket's first day; buckets without transactions are missing
+export function totalsByPeriod(rows: TransactionTotal[]) {
+  const grouped: Record<string, TransactionTotal[]> = {};
+  rows.forEach((row) => {
+    (grouped[row.period_start] ??= []).push(row);
+  });
+
+  return Object.fromEntries(
+    Object.entries(grouped).map(([periodStart, periodRows]) => [periodStart, sumTotals(periodRows)])
+  ) as Record<string, Totals>;
+}
+
+// Spending per category across all buckets, largest first
+export function totalsByCategory(rows: TransactionTotal[], type: 'income' | 'expense' = 'expense') {
+  const byCategory: Record<string, CategoryTotal> = {};
+
+  rows
+    .filter((row) => row.type === type)
+    .forEach((row) => {
+      const key = row.category_id ?? 'uncategorized';
+      if (!byCategory[key]) {
+        byCategory[key] = {
+          categoryId: row.category_id,
+          name: row.category_name ?? 'Uncategorized',
+          icon: row.category_icon ?? 'circle',
+          color: row.category_color ?? '#94a3b8',
+          amount: 0,
+        };
+      }
+      byCategory[key].amount += row.total;
+    });
+
+  return Object.values(byCategory).sort((a, b) => b.amount - a.amount);
+}
+
+// One category's total in each of the given buckets, in order; a null category is uncategorized
+export function categorySeries(
+  rows: TransactionTotal[],
+  categoryId: string | null,
+  periodStarts: string[],
+  type: 'income' | 'expense' = 'expense'
+) {
+  return periodStarts.map((periodStart) =>
+    rows
+      .filter((row) => row.type === type && row.category_id === categoryId && row.period_start === periodStart)
+      .reduce((sum, row) => sum + row.total, 0)
+  );
+}
@@ -0,0 +1,111 @@
+import { parseAmount } from './csv';
+
+export interface StatementTransaction {
+  date: string;
+  amount: number | null;
+  description: string;
+  category: string;
+  external_id: string | null;
+}
+
+export type StatementFormat = 'ofx' | 'qif';
+
+export function detectStatementFormat(fileName: string, text: string): StatementFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(text)) return 'ofx';
+  if (extension === 'qif' || /^!Type:/im.test(text)) return 'qif';
+  return null;
+}
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+// OFX 1.x is SGML where leaf elements have no closing tag, OFX 2.x is XML; reading up to the next
+// tag or line break handles both.
+const readOfxField = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : '';
+};
+
+const parseOfxDate = (value: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : value;
+};
+
+export function parseOfx(text: string): StatementTransaction[] {
+  const transactions: StatementTransaction[] = [];
+  const statements = text.split(/<\/?(?:STMTRS|CCSTMTRS)>/i);
+
+  statements.forEach((statement) => {
+    const accountId = readOfxField(statement, 'ACCTID');
+    const blocks = statement.split(/<STMTTRN>/i).slice(1);
+
+    blocks.forEach((rawBlock) => {
+      const block = rawBlock.split(/<\/STMTTRN>/i)[0];
+      const fitId = readOfxField(block, 'FITID');
+      const name = readOfxField(block, 'NAME') || readOfxField(block, 'PAYEE');
+      const memo = readOfxField(block, 'MEMO');
+
+      transactions.push({
+        date: parseOfxDate(readOfxField(block, 'DTPOSTED')),
+        amount: parseAmount(readOfxField(block, 'TRNAMT')),
+        description: name && memo && memo !== name ? `${name} - ${memo}` : name || memo,
+        category: '',
+        external_id: fitId ? `ofx:${accountId ? `${accountId}:` : ''}${fitId}` : null,
+      });
+    });
+  });
+
+  return transactions;
+}
+
+export function parseQif(text: string): StatementTransaction[] {
+  const transactions: StatementTransaction[] = [];
+  let current: Record<string, string> = {};
+
+  const flush = () => {
+    if (current.D || current.T || current.U) {
+      const payee = current.P ?? '';
+      const memo = current.M ?? '';
+
+      transactions.push({
+        // Quicken writes two-digit years after an apostrophe, e.g. 1/31'24
+        date: (current.D ?? '').replace(/'\s*/, '/').replace(/\s+/g, ''),
+        amount: parseAmount(current.T ?? current.U ?? ''),
+        description: payee && memo && memo !== payee ? `${payee} - ${memo}` : payee || memo,
+        category: (current.L ?? '').replace(/^\[|\]$/g, '').split(':')[0],
+        external_id: null,
+      });
+    }
+    current = {};
+  };
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('!')) return;
+
+    if (line === '^') {
+      flush();
+      return;
+    }
+
+    const code = line[0];
+    if (!(code in current)) {
+      current[code] = line.slice(1).trim();
+    }
+  });
+
+  flush();
+
+  return transactions;
+}
+
+export function parseStatement(format: StatementFormat, text: string) {
+  return format === 'ofx' ? parseOfx(text) : parseQif(text);
+}
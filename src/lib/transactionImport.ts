@@ -0,0 +1,100 @@
+import { supabase } from './supabase';
+
+export interface ImportedTransaction {
+  date: string;
+  amount: number;
+  type: 'income' | 'expense';
+  description: string;
+  category_id: string;
+  external_id: string | null;
+}
+
+const INSERT_BATCH_SIZE = 500;
+
+// PostgREST returns at most 1000 rows per request, so existing transactions are read in pages
+const SELECT_PAGE_SIZE = 1000;
+
+export function duplicateKey(transaction: { date: string; amount: number; description: string }) {
+  return [
+    transaction.date,
+    Number(transaction.amount).toFixed(2),
+    transaction.description.trim().toLowerCase(),
+  ].join('|');
+}
+
+const referenceKey = (externalId: string) => `ref:${externalId}`;
+
+export function isDuplicate(
+  existing: Set<string>,
+  transaction: Pick<ImportedTransaction, 'date' | 'amount' | 'description' | 'external_id'>
+) {
+  return (
+    (transaction.external_id !== null && existing.has(referenceKey(transaction.external_id))) ||
+    existing.has(duplicateKey(transaction))
+  );
+}
+
+export async function findExistingDuplicates(
+  userId: string,
+  rows: Pick<ImportedTransaction, 'date' | 'amount' | 'description'>[]
+): Promise<Set<string>> {
+  if (rows.length === 0) return new Set();
+
+  const dates = rows.map((row) => row.date).sort();
+
+  const existing = new Set<string>();
+
+  for (let from = 0; ; from += SELECT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('date, amount, description, external_id')
+      .eq('user_id', userId)
+      .gte('date', dates[0])
+      .lte('date', dates[dates.length - 1])
+      .order('id')
+      .range(from, from + SELECT_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    (data ?? []).forEach((transaction) => {
+      existing.add(duplicateKey(transaction));
+      if (transaction.external_id) {
+        existing.add(referenceKey(transaction.external_id));
+      }
+    });
+
+    if (!data || data.length < SELECT_PAGE_SIZE) break;
+  }
+
+  return existing;
+}
+
+export async function insertImportedTransactions(
+  userId: string,
+  accountId: string | null,
+  rows: ImportedTransaction[]
+) {
+  let inserted = 0;
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + INSERT_BATCH_SIZE).map((row) => ({
+      ...row,
+      user_id: userId,
+      account_id: accountId,
+    }));
+
+    // Rows whose external_id was already imported are skipped rather than failing the batch
+    const { data, error } = await supabase
+      .from('transactions')
+      .upsert(batch, { onConflict: 'user_id,external_id', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) {
+      return { inserted, error };
+    }
+
+    inserted += data?.length ?? 0;
+  }
+
+  return { inserted, error: null };
+}
@@ -0,0 +1,647 @@
+import { useEffect, useState } from 'react';
+import { Plus, X, ArrowLeftRight, Pencil, Trash2, Archive, ArchiveRestore, AlertCircle, Wallet } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import {
+  accountTypes,
+  getAccountType,
+  loadAccountBalances,
+  withRunningBalance,
+  type Account,
+  type AccountBalance,
+  type AccountType,
+  type LedgerTransaction,
+} from '../lib/accounts';
+
+interface AccountTransaction extends LedgerTransaction {
+  description: string;
+  category: { name: string; color: string } | null;
+}
+
+const LEDGER_PAGE_SIZE = 50;
+
+const emptyAccountForm = () => ({
+  name: '',
+  type: 'checking' as AccountType,
+  opening_balance: '0',
+});
+
+const emptyTransferForm = (fromId = '', toId = '') => ({
+  account_id: fromId,
+  transfer_account_id: toId,
+  amount: '',
+  description: '',
+  date: new Date().toISOString().split('T')[0],
+});
+
+export function Accounts() {
+  const { user } = useAuth();
+  const { formatCurrency, formatDate } = useCurrency();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [balances, setBalances] = useState<Record<string, AccountBalance>>({});
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  // The selected account's latest transactions, newest first
+  const [transactions, setTransactions] = useState<AccountTransaction[]>([]);
+  const [hasMoreTransactions, setHasMoreTransactions] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const [showAccountModal, setShowAccountModal] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [accountForm, setAccountForm] = useState(emptyAccountForm());
+
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  const [transferForm, setTransferForm] = useState(emptyTransferForm());
+
+  useEffect(() => {
+    if (user) {
+      loadData();
+    }
+  }, [user]);
+
+  // Balances change whenever the data is reloaded, so the ledger starts over from the new balance
+  useEffect(() => {
+    if (user && selectedAccountId) {
+      loadTransactions(0);
+    }
+  }, [user, selectedAccountId, balances]);
+
+  const loadData = async () => {
+    if (!user) return;
+
+    const [{ data: accountData }, balanceData] = await Promise.all([
+      supabase.from('accounts').select('*').eq('user_id', user.id).order('created_at'),
+      loadAccountBalances(),
+    ]);
+
+    if (accountData) {
+      setAccounts(accountData);
+      setSelectedAccountId((prev) => prev ?? accountData[0]?.id ?? null);
+    }
+
+    setBalances(balanceData);
+    setLoading(false);
+  };
+
+  const loadTransactions = async (from: number) => {
+    if (!user || !selectedAccountId) return;
+
+    const { data } = await supabase
+      .from('transactions')
+      .select(`
+        id,
+        date,
+        created_at,
+        type,
+        amount,
+        exchange_rate,
+        description,
+        account_id,
+        transfer_account_id,
+        category:categories (name, color)
+      `)
+      .eq('user_id', user.id)
+      .or(`account_id.eq.${selectedAccountId},transfer_account_id.eq.${selectedAccountId}`)
+      .order('date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(from, from + LEDGER_PAGE_SIZE - 1);
+
+    if (data) {
+      setTransactions((prev) => (from === 0 ? data : [...prev, ...data]));
+      setHasMoreTransactions(data.length === LEDGER_PAGE_SIZE);
+    }
+  };
+
+  const activeAccounts = accounts.filter((account) => !account.is_archived);
+  const visibleAccounts = showArchived ? accounts : activeAccounts;
+  const netWorth = accounts.reduce((sum, account) => sum + (balances[account.id]?.balance ?? 0), 0);
+  const selectedAccount = accounts.find((account) => account.id === selectedAccountId) ?? null;
+  const ledger = selectedAccount
+    ? withRunningBalance(selectedAccount.id, balances[selectedAccount.id]?.balance ?? 0, transactions)
+    : [];
+
+  const openAddAccount = () => {
+    setEditingAccount(null);
+    setAccountForm(emptyAccountForm());
+    setError('');
+    setShowAccountModal(true);
+  };
+
+  const openEditAccount = (account: Account) => {
+    setEditingAccount(account);
+    setAccountForm({
+      name: account.name,
+      type: account.type,
+      opening_balance: String(account.opening_balance),
+    });
+    setError('');
+    setShowAccountModal(true);
+  };
+
+  const handleAccountSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const values = {
+      name: accountForm.name.trim(),
+      type: accountForm.type,
+      opening_balance: parseFloat(accountForm.opening_balance) || 0,
+    };
+
+    const { error } = editingAccount
+      ? await supabase.from('accounts').update(values).eq('id', editingAccount.id)
+      : await supabase.from('accounts').insert({ ...values, user_id: user.id });
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setShowAccountModal(false);
+      loadData();
+    }
+  };
+
+  const handleToggleArchived = async (account: Account) => {
+    const { error } = await supabase
+      .from('accounts')
+      .update({ is_archived: !account.is_archived })
+      .eq('id', account.id);
+
+    if (!error) {
+      loadData();
+    }
+  };
+
+  const handleDeleteAccount = async (account: Account) => {
+    if (balances[account.id]?.transactionCount) {
+      setError(`"${account.name}" has transactions and can't be deleted. Archive it instead.`);
+      return;
+    }
+
+    if (!confirm(`Delete the "${account.name}" account?`)) return;
+
+    const { error } = await supabase.from('accounts').delete().eq('id', account.id);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setError('');
+      if (selectedAccountId === account.id) setSelectedAccountId(null);
+      loadData();
+    }
+  };
+
+  const openTransfer = () => {
+    setTransferForm(emptyTransferForm(activeAccounts[0]?.id, activeAccounts[1]?.id));
+    setError('');
+    setShowTransferModal(true);
+  };
+
+  const handleTransferSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (transferForm.account_id === transferForm.transfer_account_id) {
+      setError('Choose two different accounts.');
+      return;
+    }
+
+    const { error } = await supabase.from('transactions').insert({
+      user_id: user.id,
+      type: 'transfer',
+      category_id: null,
+      account_id: transferForm.account_id,
+      transfer_account_id: transferForm.transfer_account_id,
+      amount: parseFloat(transferForm.amount),
+      description: transferForm.description,
+      date: transferForm.date,
+    });
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setShowTransferModal(false);
+      loadData();
+    }
+  };
+
+  const accountName = (id: string | null) => accounts.find((account) => account.id === id)?.name ?? 'Unknown';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+            className="w-4 h-4 text-blue-600 bg-slate-100 border-slate-300 rounded focus:ring-blue-500"
+          />
+          Show archived accounts
+        </label>
+
+        <div className="flex gap-3">
+          <button
+            onClick={openTransfer}
+            disabled={activeAccounts.length < 2}
+            className="flex items-center gap-2 px-4 py-2.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ArrowLeftRight className="w-5 h-5" />
+            <span>Transfer</span>
+          </button>
+
+          <button
+            onClick={openAddAccount}
+            className="flex items-center gap-2 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Add Account</span>
+          </button>
+        </div>
+      </div>
+
+      {error && !showAccountModal && !showTransferModal && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-gradient-to-br from-blue-600 to-blue-700 rounded-2xl p-6 text-white shadow-lg">
+        <div className="flex items-start justify-between">
+          <div>
+            <p className="text-blue-100 text-sm font-medium">Net Worth</p>
+            <h3 className="text-3xl font-bold mt-1">{formatCurrency(netWorth)}</h3>
+            <p className="text-xs text-blue-100 mt-2">
+              Across {accounts.length} account{accounts.length === 1 ? '' : 's'}
+            </p>
+          </div>
+          <div className="bg-white/20 p-3 rounded-xl">
+            <Wallet className="w-6 h-6" />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {visibleAccounts.map((account) => {
+          const { icon: Icon, label } = getAccountType(account.type);
+          const balance = balances[account.id]?.balance ?? 0;
+          const isSelected = account.id === selectedAccountId;
+
+          return (
+            <div
+              key={account.id}
+              onClick={() => setSelectedAccountId(account.id)}
+              className={`bg-white dark:bg-slate-800 rounded-xl p-6 shadow-sm border cursor-pointer transition-all ${
+                isSelected
+                  ? 'border-blue-500 ring-2 ring-blue-500/20'
+                  : 'border-slate-200 dark:border-slate-700 hover:shadow-md'
+              } ${account.is_archived ? 'opacity-60' : ''}`}
+            >
+              <div className="flex items-start justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <div className="p-3 rounded-lg bg-blue-100 dark:bg-blue-900/20">
+                    <Icon className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+                  </div>
+                  <div>
+                    <h4 className="font-semibold text-slate-900 dark:text-white">{account.name}</h4>
+                    <p className="text-sm text-slate-600 dark:text-slate-400">
+                      {label}
+                      {account.is_archived ? ' · Archived' : ''}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                  <button
+                    onClick={() => openEditAccount(account)}
+                    className="text-slate-400 hover:text-blue-600 dark:hover:text-blue-400"
+                    title="Edit account"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleToggleArchived(account)}
+                    className="text-slate-400 hover:text-amber-600 dark:hover:text-amber-400"
+                    title={account.is_archived ? 'Restore account' : 'Archive account'}
+                  >
+                    {account.is_archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => handleDeleteAccount(account)}
+                    className="text-slate-400 hover:text-red-600 dark:hover:text-red-400"
+                    title="Delete account"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <p
+                className={`text-2xl font-bold ${
+                  balance < 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-900 dark:text-white'
+                }`}
+              >
+                {formatCurrency(balance)}
+              </p>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                Opening balance {formatCurrency(Number(account.opening_balance))}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {selectedAccount && (
+        <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-white">
+              {selectedAccount.name} Activity
+            </h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-slate-50 dark:bg-slate-700/50 border-b border-slate-200 dark:border-slate-700">
+                <tr>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
+                    Details
+                  </th>
+                  <th className="px-6 py-4 text-right text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th className="px-6 py-4 text-right text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
+                    Balance
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                {ledger.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+                      No transactions in this account yet.
+                    </td>
+                  </tr>
+                ) : (
+                  ledger.map((transaction) => (
+                    <tr key={transaction.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+                      <td className="px-6 py-4 text-sm text-slate-900 dark:text-white whitespace-nowrap">
+                        {formatDate(transaction.date)}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <p className="font-medium text-slate-900 dark:text-white">
+                          {transaction.type === 'transfer'
+                            ? transaction.change > 0
+                              ? `Transfer from ${accountName(transaction.account_id)}`
+                              : `Transfer to ${accountName(transaction.transfer_account_id)}`
+                            : transaction.category?.name}
+                        </p>
+                        {transaction.description && (
+                          <p className="text-slate-500 dark:text-slate-400">{transaction.description}</p>
+                        )}
+                      </td>
+                      <td
+                        className={`px-6 py-4 text-right text-sm font-semibold whitespace-nowrap ${
+                          transaction.change >= 0
+                            ? 'text-green-600 dark:text-green-400'
+                            : 'text-red-600 dark:text-red-400'
+                        }`}
+                      >
+                        {transaction.change >= 0 ? '+' : '-'}
+                        {formatCurrency(Math.abs(transaction.change))}
+                      </td>
+                      <td className="px-6 py-4 text-right text-sm text-slate-900 dark:text-white whitespace-nowrap">
+                        {formatCurrency(transaction.running_balance)}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+          {hasMoreTransactions && (
+            <div className="px-6 py-4 border-t border-slate-200 dark:border-slate-700 text-center">
+              <button
+                onClick={() => loadTransactions(transactions.length)}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Load older transactions
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {showAccountModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 w-full max-w-md shadow-xl">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-bold text-slate-900 dark:text-white">
+                {editingAccount ? 'Edit Account' : 'Add Account'}
+              </h3>
+              <button
+                onClick={() => setShowAccountModal(false)}
+                className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+                {error}
+              </div>
+            )}
+
+            <form onSubmit={handleAccountSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Account Name
+                </label>
+                <input
+                  type="text"
+                  value={accountForm.name}
+                  onChange={(e) => setAccountForm({ ...accountForm, name: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  placeholder="e.g., Everyday Checking"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Type
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {accountTypes.map(({ value, label, icon: Icon }) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setAccountForm({ ...accountForm, type: value })}
+                      className={`flex items-center justify-center gap-2 py-2.5 rounded-lg font-medium transition-colors ${
+                        accountForm.type === value
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300'
+                      }`}
+                    >
+                      <Icon className="w-4 h-4" />
+                      <span>{label}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Opening Balance
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={accountForm.opening_balance}
+                  onChange={(e) => setAccountForm({ ...accountForm, opening_balance: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  placeholder="0.00"
+                  required
+                />
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                  Use a negative amount for money owed, e.g. a credit card balance
+                </p>
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowAccountModal(false)}
+                  className="flex-1 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+                >
+                  {editingAccount ? 'Save Changes' : 'Add Account'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showTransferModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 w-full max-w-md shadow-xl">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-bold text-slate-900 dark:text-white">Transfer Money</h3>
+              <button
+                onClick={() => setShowTransferModal(false)}
+                className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+                {error}
+              </div>
+            )}
+
+            <form onSubmit={handleTransferSubmit} className="space-y-4">
+              {(['account_id', 'transfer_account_id'] as const).map((field) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    {field === 'account_id' ? 'From' : 'To'}
+                  </label>
+                  <select
+                    value={transferForm[field]}
+                    onChange={(e) => setTransferForm({ ...transferForm, [field]: e.target.value })}
+                    className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                    required
+                  >
+                    {activeAccounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name} ({formatCurrency(balances[account.id]?.balance ?? 0)})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Amount
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={transferForm.amount}
+                  onChange={(e) => setTransferForm({ ...transferForm, amount: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  placeholder="0.00"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Description
+                </label>
+                <input
+                  type="text"
+                  value={transferForm.description}
+                  onChange={(e) => setTransferForm({ ...transferForm, description: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  placeholder="e.g., Credit card payment"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Date
+                </label>
+                <input
+                  type="date"
+                  value={transferForm.date}
+                  onChange={(e) => setTransferForm({ ...transferForm, date: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  required
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowTransferModal(false)}
+                  className="flex-1 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+                >
+                  Transfer
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
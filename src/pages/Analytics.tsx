@@ -1,9 +1,24 @@
 import { useEffect, useState } from 'react';
 import { TrendingUp, DollarSign } from 'lucide-react';
-import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { ExportMenu } from '../components/export/ExportMenu';
+import { PeriodPicker } from '../components/analytics/PeriodPicker';
+import { CategoryDrillDown } from '../components/analytics/CategoryDrillDown';
+import { CategorySpendingChart, type CategorySeries } from '../components/analytics/CategorySpendingChart';
+import { downloadCsvTables, downloadJson, printStatement, type ExportFormat, type ExportTable } from '../lib/export';
+import { monthRange } from '../lib/budgets';
+import { monthsInRange, rangePresets, readRange, writeRange, type SelectedRange } from '../lib/dateRanges';
+import {
+  categorySeries,
+  loadTransactionTotals,
+  totalsByCategory,
+  totalsByPeriod,
+  type TransactionTotal,
+} from '../lib/reports';
 
 interface CategoryExpense {
+  categoryId: string | null;
   name: string;
   amount: number;
   color: string;
@@ -11,122 +26,154 @@ interface CategoryExpense {
 }
 
 interface MonthlyData {
+  periodStart: string;
   month: string;
   income: number;
   expense: number;
   savings: number;
 }
 
+const STACKED_CATEGORIES = 5;
+
 export function Analytics() {
   const { user } = useAuth();
+  const { formatCurrency, formatDate } = useCurrency();
   const [categoryExpenses, setCategoryExpenses] = useState<CategoryExpense[]>([]);
   const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([]);
+  const [totals, setTotals] = useState<TransactionTotal[]>([]);
+  const [selectedCategory, setSelectedCategory] = useState<CategoryExpense | null>(null);
+  const [selection, setSelection] = useState<SelectedRange>(() => readRange(window.location.search));
   const [loading, setLoading] = useState(true);
+  const { from, to } = selection.range;
 
   useEffect(() => {
     if (user) {
       loadAnalytics();
     }
-  }, [user]);
+  }, [user, from, to]);
+
+  const handleSelectionChange = (next: SelectedRange) => {
+    setSelection(next);
+    writeRange(next);
+  };
 
   const loadAnalytics = async () => {
     if (!user) return;
 
-    const now = new Date();
-    const currentMonth = now.getMonth() + 1;
-    const currentYear = now.getFullYear();
-    const firstDay = new Date(currentYear, now.getMonth(), 1).toISOString().split('T')[0];
-    const lastDay = new Date(currentYear, now.getMonth() + 1, 0).toISOString().split('T')[0];
-
-    const { data: transactions } = await supabase
-      .from('transactions')
-      .select(`
-        *,
-        categories (name, color)
-      `)
-      .eq('user_id', user.id)
-      .gte('date', firstDay)
-      .lte('date', lastDay);
-
-    if (transactions) {
-      const expensesByCategory: Record<string, { amount: number; color: string }> = {};
-      let totalExpense = 0;
-
-      transactions.forEach((t: any) => {
-        if (t.type === 'expense') {
-          const categoryName = t.categories?.name || 'Other';
-          const categoryColor = t.categories?.color || '#6366f1';
-          const amount = Number(t.amount);
-
-          if (!expensesByCategory[categoryName]) {
-            expensesByCategory[categoryName] = { amount: 0, color: categoryColor };
-          }
-          expensesByCategory[categoryName].amount += amount;
-          totalExpense += amount;
-        }
-      });
+    const totalsData = await loadTransactionTotals(from, to);
+    setTotals(totalsData);
 
-      const categoryData = Object.entries(expensesByCategory)
-        .map(([name, data]) => ({
-          name,
-          amount: data.amount,
-          color: data.color,
-          percentage: (data.amount / totalExpense) * 100,
-        }))
-        .sort((a, b) => b.amount - a.amount);
+    const categoryTotals = totalsByCategory(totalsData);
+    const totalExpense = categoryTotals.reduce((sum, category) => sum + category.amount, 0);
 
-      setCategoryExpenses(categoryData);
-    }
+    setCategoryExpenses(
+      categoryTotals.map((category) => ({
+        categoryId: category.categoryId,
+        name: category.name,
+        amount: category.amount,
+        color: category.color,
+        percentage: (category.amount / totalExpense) * 100,
+      }))
+    );
 
-    const monthlyStats: MonthlyData[] = [];
-    const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-
-    for (let i = 5; i >= 0; i--) {
-      const targetDate = new Date(currentYear, currentMonth - 1 - i, 1);
-      const targetMonth = targetDate.getMonth() + 1;
-      const targetYear = targetDate.getFullYear();
-      const monthFirst = new Date(targetYear, targetMonth - 1, 1).toISOString().split('T')[0];
-      const monthLast = new Date(targetYear, targetMonth, 0).toISOString().split('T')[0];
-
-      const { data } = await supabase
-        .from('transactions')
-        .select('type, amount')
-        .eq('user_id', user.id)
-        .gte('date', monthFirst)
-        .lte('date', monthLast);
-
-      let income = 0;
-      let expense = 0;
-
-      if (data) {
-        data.forEach((t) => {
-          if (t.type === 'income') {
-            income += Number(t.amount);
-          } else {
-            expense += Number(t.amount);
-          }
-        });
-      }
-
-      monthlyStats.push({
-        month: monthNames[targetMonth - 1],
-        income,
-        expense,
-        savings: income - expense,
-      });
-    }
+    // Months are labelled with their year once the range spans more than one
+    const months = monthsInRange(selection.range);
+    const spansYears = months[0].year !== months[months.length - 1].year;
+    const byMonth = totalsByPeriod(totalsData);
+
+    setMonthlyData(
+      months.map(({ month, year }) => {
+        const { firstDay } = monthRange(month, year);
+        const { income, expenses } = byMonth[firstDay] ?? { income: 0, expenses: 0 };
+
+        return {
+          periodStart: firstDay,
+          month: formatDate(`${firstDay}T00:00:00`, spansYears ? { month: 'short', year: '2-digit' } : { month: 'short' }),
+          income,
+          expense: expenses,
+          savings: income - expenses,
+        };
+      })
+    );
 
-    setMonthlyData(monthlyStats);
     setLoading(false);
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
+  const periodLabel =
+    selection.preset === 'custom'
+      ? `${formatDate(`${from}T00:00:00`)} – ${formatDate(`${to}T00:00:00`)}`
+      : rangePresets.find((preset) => preset.value === selection.preset)?.label ?? '';
+
+  const handleExport = (format: ExportFormat) => {
+    if (format === 'json') {
+      downloadJson('analytics', {
+        period: { from, to },
+        categoryExpenses: { period: periodLabel, categories: categoryExpenses },
+        monthlyTrend: monthlyData,
+      });
+      return;
+    }
+
+    const tables = (formatValue: (amount: number) => string | number): ExportTable[] => [
+      {
+        heading: `Expenses by Category (${periodLabel})`,
+        columns: ['Category', 'Amount', 'Share %'],
+        rows: categoryExpenses.map((c) => [c.name, formatValue(c.amount), Number(c.percentage.toFixed(1))]),
+      },
+      {
+        heading: `Income vs Expenses by Month (${periodLabel})`,
+        columns: ['Month', 'Income', 'Expenses', 'Savings'],
+        rows: monthlyData.map((d) => [d.month, formatValue(d.income), formatValue(d.expense), formatValue(d.savings)]),
+      },
+    ];
+
+    if (format === 'csv') {
+      downloadCsvTables('analytics', tables((amount) => amount));
+      return;
+    }
+
+    const totals = monthlyData.reduce(
+      (acc, d) => ({ income: acc.income + d.income, expense: acc.expense + d.expense }),
+      { income: 0, expense: 0 }
+    );
+
+    printStatement({
+      title: 'Analytics Report',
+      period: periodLabel,
+      summary: [
+        ['Total Income', formatCurrency(totals.income)],
+        ['Total Expenses', formatCurrency(totals.expense)],
+        ['Total Savings', formatCurrency(totals.income - totals.expense)],
+      ],
+      tables: tables(formatCurrency),
+    });
   };
 
+  const isSelected = (category: CategoryExpense) =>
+    selectedCategory !== null && selectedCategory.categoryId === category.categoryId;
+
+  const toggleCategory = (category: CategoryExpense) => setSelectedCategory(isSelected(category) ? null : category);
+
+  const periodStarts = monthlyData.map((d) => d.periodStart);
+  const monthLabels = monthlyData.map((d) => d.month);
+
+  // The biggest categories get their own area and the rest are combined, so the chart stays readable
+  const stackedSeries: CategorySeries[] = categoryExpenses.slice(0, STACKED_CATEGORIES).map((category) => ({
+    categoryId: category.categoryId,
+    name: category.name,
+    color: category.color,
+    values: categorySeries(totals, category.categoryId, periodStarts),
+  }));
+  if (categoryExpenses.length > STACKED_CATEGORIES) {
+    stackedSeries.push({
+      name: 'Other',
+      color: '#94a3b8',
+      values: monthlyData.map(
+        (d, index) => d.expense - stackedSeries.reduce((sum, series) => sum + series.values[index], 0)
+      ),
+    });
+  }
+
   const maxValue = Math.max(...monthlyData.map((d) => Math.max(d.income, d.expense)));
 
   if (loading) {
@@ -139,15 +186,21 @@ export function Analytics() {
 
   return (
     <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
+        <PeriodPicker value={selection} onChange={handleSelectionChange} />
+        <ExportMenu onExport={handleExport} />
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
-          <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-6">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white">
             Expenses by Category
           </h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">Select a category for its details</p>
 
           {categoryExpenses.length === 0 ? (
             <p className="text-center text-slate-500 dark:text-slate-400 py-12">
-              No expense data available for this month
+              No expense data available for this period
             </p>
           ) : (
             <div className="space-y-4">
@@ -174,7 +227,9 @@ export function Analytics() {
                             strokeWidth="31.831"
                             strokeDasharray={strokeDasharray}
                             strokeDashoffset={strokeDashoffset}
-                            className="transition-all duration-500"
+                            strokeOpacity={selectedCategory && !isSelected(category) ? 0.35 : 1}
+                            onClick={() => toggleCategory(category)}
+                            className="cursor-pointer transition-all duration-500"
                           />,
                         ],
                       };
@@ -192,7 +247,15 @@ export function Analytics() {
 
               <div className="space-y-3">
                 {categoryExpenses.map((category, index) => (
-                  <div key={index} className="flex items-center justify-between">
+                  <button
+                    key={index}
+                    onClick={() => toggleCategory(category)}
+                    className={`w-full flex items-center justify-between px-2 py-1 -mx-2 rounded-lg text-left transition-colors ${
+                      isSelected(category)
+                        ? 'bg-slate-100 dark:bg-slate-700'
+                        : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'
+                    }`}
+                  >
                     <div className="flex items-center gap-3">
                       <div
                         className="w-4 h-4 rounded-full"
@@ -210,7 +273,7 @@ export function Analytics() {
                         {category.percentage.toFixed(1)}%
                       </p>
                     </div>
-                  </div>
+                  </button>
                 ))}
               </div>
             </div>
@@ -300,6 +363,30 @@ export function Analytics() {
         </div>
       </div>
 
+      {selectedCategory && (
+        <CategoryDrillDown
+          category={selectedCategory}
+          range={selection.range}
+          labels={monthLabels}
+          trend={categorySeries(totals, selectedCategory.categoryId, periodStarts)}
+          transactionCount={totals
+            .filter((row) => row.type === 'expense' && row.category_id === selectedCategory.categoryId)
+            .reduce((sum, row) => sum + row.transaction_count, 0)}
+          onClose={() => setSelectedCategory(null)}
+        />
+      )}
+
+      <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-6">Category Spending Over Time</h3>
+        <CategorySpendingChart
+          labels={monthLabels}
+          series={stackedSeries}
+          onSelect={(series) =>
+            setSelectedCategory(categoryExpenses.find((category) => category.categoryId === series.categoryId) ?? null)
+          }
+        />
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="bg-white dark:bg-slate-800 rounded-xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
           <div className="flex items-center gap-3 mb-3">
@@ -313,7 +400,7 @@ export function Analytics() {
               monthlyData.reduce((sum, d) => sum + d.income, 0) / monthlyData.length
             )}
           </p>
-          <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">Last 6 months</p>
+          <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">{periodLabel} · per month</p>
         </div>
 
         <div className="bg-white dark:bg-slate-800 rounded-xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
@@ -328,7 +415,7 @@ export function Analytics() {
               monthlyData.reduce((sum, d) => sum + d.expense, 0) / monthlyData.length
             )}
           </p>
-          <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">Last 6 months</p>
+          <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">{periodLabel} · per month</p>
         </div>
 
         <div className="bg-white dark:bg-slate-800 rounded-xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
@@ -343,7 +430,7 @@ export function Analytics() {
               monthlyData.reduce((sum, d) => sum + d.savings, 0) / monthlyData.length
             )}
           </p>
-          <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">Last 6 months</p>
+          <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">{periodLabel} · per month</p>
         </div>
       </div>
     </div>
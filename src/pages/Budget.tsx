@@ -1,7 +1,28 @@
 import { useEffect, useState } from 'react';
-import { Plus, X, TrendingUp, AlertCircle } from 'lucide-react';
+import { Plus, X, TrendingUp, AlertCircle, Copy, Repeat, Wallet, Gauge, Bell, Pencil } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { ExportMenu } from '../components/export/ExportMenu';
+import { downloadCsv, downloadJson, printStatement, type ExportFormat } from '../lib/export';
+import {
+  DEFAULT_ALERT_THRESHOLDS,
+  availableFor,
+  budgetLevel,
+  budgetPeriods,
+  copyPreviousMonthBudgets,
+  loadBudgetAlerts,
+  loadBudgetsForMonth,
+  monthRange,
+  parseThresholds,
+  previousMonth,
+  usedPercentage,
+  windowProgress,
+  type BudgetAlert,
+  type BudgetLevel,
+  type BudgetPeriod,
+  type BudgetWindow,
+} from '../lib/budgets';
 
 interface Category {
   id: string;
@@ -17,25 +38,48 @@ interface Budget {
   amount: number;
   month: number;
   year: number;
+  rollover: boolean;
+  period: BudgetPeriod;
+  start_date: string;
+  end_date: string | null;
+  alert_thresholds: number[];
   category?: Category;
+  window: BudgetWindow;
   spent: number;
+  carried_over: number;
 }
 
+const todayIso = () => new Date().toISOString().split('T')[0];
+
 export function Budget() {
   const { user } = useAuth();
+  const { formatCurrency, formatDate, toHome } = useCurrency();
   const [budgets, setBudgets] = useState<Budget[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [showModal, setShowModal] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [zeroBased, setZeroBased] = useState(false);
+  const [income, setIncome] = useState(0);
+  const [assignDrafts, setAssignDrafts] = useState<Record<string, string>>({});
+  const [alerts, setAlerts] = useState<BudgetAlert[]>([]);
+  const [historyBudgetId, setHistoryBudgetId] = useState<string | null>(null);
+  const [editingBudgetId, setEditingBudgetId] = useState<string | null>(null);
+  const [error, setError] = useState('');
 
   const currentDate = new Date();
   const [selectedMonth, setSelectedMonth] = useState(currentDate.getMonth() + 1);
   const [selectedYear, setSelectedYear] = useState(currentDate.getFullYear());
 
-  const [formData, setFormData] = useState({
+  const emptyForm = {
     category_id: '',
     amount: '',
-  });
+    rollover: false,
+    period: 'monthly' as BudgetPeriod,
+    start_date: '',
+    end_date: '',
+    alert_thresholds: DEFAULT_ALERT_THRESHOLDS.join(', '),
+  };
+  const [formData, setFormData] = useState(emptyForm);
 
   useEffect(() => {
     if (user) {
@@ -44,6 +88,26 @@ export function Budget() {
     }
   }, [user, selectedMonth, selectedYear]);
 
+  useEffect(() => {
+    if (user) {
+      loadBudgetMode();
+    }
+  }, [user]);
+
+  const loadBudgetMode = async () => {
+    if (!user) return;
+
+    const { data } = await supabase
+      .from('profiles')
+      .select('zero_based_budgeting')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (data) {
+      setZeroBased(data.zero_based_budgeting);
+    }
+  };
+
   const loadCategories = async () => {
     if (!user) return;
 
@@ -65,43 +129,16 @@ export function Budget() {
   const loadBudgets = async () => {
     if (!user) return;
 
-    const { data: budgetData } = await supabase
-      .from('budgets')
-      .select(`
-        *,
-        categories (*)
-      `)
-      .eq('user_id', user.id)
-      .eq('month', selectedMonth)
-      .eq('year', selectedYear);
-
-    if (budgetData) {
-      const firstDay = new Date(selectedYear, selectedMonth - 1, 1).toISOString().split('T')[0];
-      const lastDay = new Date(selectedYear, selectedMonth, 0).toISOString().split('T')[0];
-
-      const { data: transactionData } = await supabase
-        .from('transactions')
-        .select('category_id, amount')
-        .eq('user_id', user.id)
-        .eq('type', 'expense')
-        .gte('date', firstDay)
-        .lte('date', lastDay);
-
-      const spentByCategory: Record<string, number> = {};
-      if (transactionData) {
-        transactionData.forEach((transaction) => {
-          spentByCategory[transaction.category_id] =
-            (spentByCategory[transaction.category_id] || 0) + Number(transaction.amount);
-        });
-      }
+    const { budgets: budgetData, income: monthIncome } = await loadBudgetsForMonth(
+      user.id,
+      selectedMonth,
+      selectedYear
+    );
 
-      const budgetsWithSpent = budgetData.map((budget: any) => ({
-        ...budget,
-        spent: spentByCategory[budget.category_id] || 0,
-      }));
-
-      setBudgets(budgetsWithSpent);
-    }
+    setBudgets(budgetData);
+    setAlerts(await loadBudgetAlerts(user.id, budgetData.map((budget) => budget.id)));
+    setIncome(monthIncome);
+    setAssignDrafts({});
 
     setLoading(false);
   };
@@ -110,49 +147,179 @@ export function Budget() {
     e.preventDefault();
     if (!user) return;
 
+    const isMonthly = formData.period === 'monthly';
+    const startDate = isMonthly ? monthRange(selectedMonth, selectedYear).firstDay : formData.start_date;
+    const [year, month] = startDate.split('-').map(Number);
+
+    const values = {
+      user_id: user.id,
+      category_id: formData.category_id,
+      amount: parseFloat(formData.amount),
+      period: formData.period,
+      start_date: startDate,
+      end_date: formData.period === 'custom' ? formData.end_date : null,
+      month,
+      year,
+      rollover: isMonthly && formData.rollover,
+      alert_thresholds: parseThresholds(formData.alert_thresholds),
+    };
+
+    // Editing updates the budget in place, so changing its category, period or start doesn't leave
+    // the original behind; a new budget replaces one with the same category, period and start month
+    const { error } = editingBudgetId
+      ? await supabase.from('budgets').update(values).eq('id', editingBudgetId)
+      : await supabase.from('budgets').upsert(values, { onConflict: 'user_id,category_id,period,month,year' });
+
+    if (error) {
+      setError(
+        error.code === '23505'
+          ? 'This category already has a budget with that period starting in the same month.'
+          : error.message
+      );
+    } else {
+      setShowModal(false);
+      setEditingBudgetId(null);
+      setFormData({ ...emptyForm, category_id: categories.length > 0 ? categories[0].id : '' });
+      loadBudgets();
+    }
+  };
+
+  const handleCopyPreviousMonth = async () => {
+    if (!user) return;
+
+    const { copied, error } = await copyPreviousMonthBudgets(user.id, selectedMonth, selectedYear);
+
+    if (error) {
+      alert('Failed to copy budgets. Please try again.');
+    } else if (copied === 0) {
+      const previous = previousMonth(selectedMonth, selectedYear);
+      alert(`Nothing to copy: every budget from ${monthNames[previous.month - 1]} ${previous.year} is already set.`);
+    } else {
+      loadBudgets();
+    }
+  };
+
+  const handleToggleRollover = async (budget: Budget) => {
+    const { error } = await supabase
+      .from('budgets')
+      .update({ rollover: !budget.rollover })
+      .eq('id', budget.id);
+
+    if (!error) {
+      setBudgets((prev) => prev.map((b) => (b.id === budget.id ? { ...b, rollover: !budget.rollover } : b)));
+    }
+  };
+
+  const handleToggleZeroBased = async () => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ zero_based_budgeting: !zeroBased })
+      .eq('id', user.id);
+
+    if (!error) {
+      setZeroBased(!zeroBased);
+    }
+  };
+
+  // Saves an inline assignment; rollover is left as it was on an existing budget
+  const handleAssign = async (categoryId: string) => {
+    if (!user || assignDrafts[categoryId] === undefined) return;
+
+    const amount = Math.max(parseFloat(assignDrafts[categoryId]) || 0, 0);
+    const existing = budgets.find((b) => b.category_id === categoryId && b.period === 'monthly');
+
+    if (existing && Number(existing.amount) === amount) {
+      setAssignDrafts((prev) => {
+        const next = { ...prev };
+        delete next[categoryId];
+        return next;
+      });
+      return;
+    }
+
     const { error } = await supabase.from('budgets').upsert(
       {
         user_id: user.id,
-        category_id: formData.category_id,
-        amount: parseFloat(formData.amount),
+        category_id: categoryId,
+        amount,
+        period: 'monthly',
+        start_date: monthRange(selectedMonth, selectedYear).firstDay,
         month: selectedMonth,
         year: selectedYear,
       },
       {
-        onConflict: 'user_id,category_id,month,year',
+        onConflict: 'user_id,category_id,period,month,year',
       }
     );
 
     if (!error) {
-      setShowModal(false);
-      setFormData({
-        category_id: categories.length > 0 ? categories[0].id : '',
-        amount: '',
-      });
       loadBudgets();
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
+  const openModal = () => {
+    setEditingBudgetId(null);
+    setError('');
+    setFormData({ ...formData, start_date: formData.start_date || monthRange(selectedMonth, selectedYear).firstDay });
+    setShowModal(true);
   };
 
-  const getProgressColor = (percentage: number) => {
-    if (percentage >= 100) return 'bg-red-600';
-    if (percentage >= 80) return 'bg-amber-600';
+  const openEditModal = (budget: Budget) => {
+    setEditingBudgetId(budget.id);
+    setError('');
+    setFormData({
+      category_id: budget.category_id,
+      amount: String(budget.amount),
+      rollover: budget.rollover,
+      period: budget.period,
+      start_date: budget.start_date,
+      end_date: budget.end_date ?? '',
+      alert_thresholds: budget.alert_thresholds.join(', '),
+    });
+    setShowModal(true);
+  };
+
+  const periodLabel = (period: BudgetPeriod) => budgetPeriods.find((p) => p.value === period)?.label ?? period;
+
+  const describeWindow = (budget: Budget) => `${formatDate(budget.window.start)} – ${formatDate(budget.window.end)}`;
+
+  // Compares spending with how far through its window the budget is, while the window is under way
+  const paceFor = (budget: Budget) => {
+    const today = todayIso();
+    if (today < budget.window.start || today > budget.window.end) return null;
+    return { used: usedPercentage(budget), elapsed: windowProgress(budget.window, today) * 100 };
+  };
+
+  const getProgressColor = (level: BudgetLevel) => {
+    if (level === 'over') return 'bg-red-600';
+    if (level === 'warning') return 'bg-amber-600';
     return 'bg-green-600';
   };
 
-  const getProgressBarColor = (percentage: number) => {
-    if (percentage >= 100) return 'bg-red-100 dark:bg-red-900/20';
-    if (percentage >= 80) return 'bg-amber-100 dark:bg-amber-900/20';
+  const getProgressBarColor = (level: BudgetLevel) => {
+    if (level === 'over') return 'bg-red-100 dark:bg-red-900/20';
+    if (level === 'warning') return 'bg-amber-100 dark:bg-amber-900/20';
     return 'bg-green-100 dark:bg-green-900/20';
   };
 
-  const totalBudget = budgets.reduce((sum, b) => sum + b.amount, 0);
+  const totalBudget = budgets.reduce((sum, b) => sum + availableFor(b), 0);
+  const totalCarriedOver = budgets.reduce((sum, b) => sum + b.carried_over, 0);
+
+  // Zero-based mode assigns this month's income to monthly budgets; carried-over money was assigned
+  // in earlier months
+  const monthlyBudgets = budgets.filter((b) => b.period === 'monthly');
+  const totalAssigned = monthlyBudgets.reduce((sum, b) => sum + Number(b.amount), 0);
+  // Rounded to cents so floating-point leftovers don't read as unassigned money
+  const toBeAssigned = Math.round((income - totalAssigned) * 100) / 100;
+  const modalBudget =
+    monthlyBudgets.find((b) => b.id === editingBudgetId) ??
+    monthlyBudgets.find((b) => b.category_id === formData.category_id);
+  const modalOverAssigned =
+    zeroBased &&
+    formData.period === 'monthly' &&
+    (parseFloat(formData.amount) || 0) - Number(modalBudget?.amount ?? 0) > toBeAssigned;
   const totalSpent = budgets.reduce((sum, b) => sum + b.spent, 0);
   const totalPercentage = totalBudget > 0 ? (totalSpent / totalBudget) * 100 : 0;
 
@@ -171,6 +338,117 @@ export function Budget() {
     'December',
   ];
 
+  const handleExport = async (format: ExportFormat) => {
+    if (!user) return;
+
+    const period = `${monthNames[selectedMonth - 1]} ${selectedYear}`;
+    const rows = budgets.map((budget) => ({
+      category: budget.category?.name ?? '',
+      period: budget.period,
+      window_start: budget.window.start,
+      window_end: budget.window.end,
+      budget: Number(budget.amount),
+      carried_over: budget.carried_over,
+      available: availableFor(budget),
+      spent: budget.spent,
+      remaining: availableFor(budget) - budget.spent,
+      rollover: budget.rollover,
+    }));
+    const columns = ['Category', 'Period', 'From', 'To', 'Budget', 'Carried Over', 'Available', 'Spent', 'Remaining'];
+
+    if (format === 'csv') {
+      downloadCsv(`budgets-${selectedYear}-${String(selectedMonth).padStart(2, '0')}`, {
+        columns,
+        rows: rows.map((row) => [
+          row.category,
+          row.period,
+          row.window_start,
+          row.window_end,
+          row.budget,
+          row.carried_over,
+          row.available,
+          row.spent,
+          row.remaining,
+        ]),
+      });
+      return;
+    }
+
+    if (format === 'json') {
+      downloadJson(`budgets-${selectedYear}-${String(selectedMonth).padStart(2, '0')}`, {
+        month: selectedMonth,
+        year: selectedYear,
+        budgets: rows,
+      });
+      return;
+    }
+
+    const { firstDay, lastDay } = monthRange(selectedMonth, selectedYear);
+
+    const { data: transactionData } = await supabase
+      .from('transactions')
+      .select(`
+        date,
+        type,
+        amount,
+        currency,
+        exchange_rate,
+        description,
+        category:categories (name)
+      `)
+      .eq('user_id', user.id)
+      .neq('type', 'transfer')
+      .gte('date', firstDay)
+      .lte('date', lastDay)
+      .order('date');
+
+    const monthTransactions = transactionData ?? [];
+    const income = monthTransactions
+      .filter((t) => t.type === 'income')
+      .reduce((sum, t) => sum + toHome(t), 0);
+    const expenses = monthTransactions
+      .filter((t) => t.type === 'expense')
+      .reduce((sum, t) => sum + toHome(t), 0);
+
+    printStatement({
+      title: 'Monthly Statement',
+      period,
+      summary: [
+        ['Income', formatCurrency(income)],
+        ['Expenses', formatCurrency(expenses)],
+        ['Net', formatCurrency(income - expenses)],
+        ['Budget Used', `${totalPercentage.toFixed(1)}%`],
+      ],
+      tables: [
+        {
+          heading: 'Budgets',
+          columns,
+          rows: rows.map((row) => [
+            row.category,
+            periodLabel(row.period),
+            formatDate(row.window_start),
+            formatDate(row.window_end),
+            formatCurrency(row.budget),
+            formatCurrency(row.carried_over),
+            formatCurrency(row.available),
+            formatCurrency(row.spent),
+            formatCurrency(row.remaining),
+          ]),
+        },
+        {
+          heading: 'Transactions',
+          columns: ['Date', 'Category', 'Description', 'Amount'],
+          rows: monthTransactions.map((t) => [
+            formatDate(t.date),
+            t.category?.name ?? '',
+            t.description,
+            `${t.type === 'income' ? '+' : '-'}${formatCurrency(Number(t.amount), t.currency)}`,
+          ]),
+        },
+      ],
+    });
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -208,13 +486,39 @@ export function Budget() {
           </select>
         </div>
 
-        <button
-          onClick={() => setShowModal(true)}
-          className="flex items-center gap-2 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
-        >
-          <Plus className="w-5 h-5" />
-          <span>Set Budget</span>
-        </button>
+        <div className="flex gap-3">
+          <button
+            onClick={handleToggleZeroBased}
+            className={`flex items-center gap-2 px-4 py-2.5 border rounded-lg font-medium transition-colors ${
+              zeroBased
+                ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-300'
+                : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'
+            }`}
+            title="Assign this month's income across your categories"
+          >
+            <Wallet className="w-5 h-5" />
+            <span>Zero-based{zeroBased ? ': On' : ''}</span>
+          </button>
+
+          <ExportMenu onExport={handleExport} />
+
+          <button
+            onClick={handleCopyPreviousMonth}
+            className="flex items-center gap-2 px-4 py-2.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-lg font-medium transition-colors"
+            title="Copy budgets from the previous month"
+          >
+            <Copy className="w-5 h-5" />
+            <span>Copy Last Month</span>
+          </button>
+
+          <button
+            onClick={openModal}
+            className="flex items-center gap-2 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Set Budget</span>
+          </button>
+        </div>
       </div>
 
       <div className="bg-gradient-to-br from-blue-600 to-blue-700 rounded-2xl p-6 text-white shadow-lg">
@@ -222,6 +526,11 @@ export function Budget() {
           <div>
             <p className="text-blue-100 text-sm font-medium">Total Budget</p>
             <h3 className="text-3xl font-bold mt-1">{formatCurrency(totalBudget)}</h3>
+            {totalCarriedOver !== 0 && (
+              <p className="text-xs text-blue-100 mt-1">
+                Includes {formatCurrency(totalCarriedOver)} carried over
+              </p>
+            )}
           </div>
           <div className="bg-white/20 p-3 rounded-xl">
             <TrendingUp className="w-6 h-6" />
@@ -245,6 +554,78 @@ export function Budget() {
         </div>
       </div>
 
+      {zeroBased && (
+        <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+          <div className="grid grid-cols-3 gap-4 mb-4">
+            <div>
+              <p className="text-sm text-slate-600 dark:text-slate-400">Income this month</p>
+              <p className="text-xl font-bold text-slate-900 dark:text-white">{formatCurrency(income)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-slate-600 dark:text-slate-400">Assigned</p>
+              <p className="text-xl font-bold text-slate-900 dark:text-white">{formatCurrency(totalAssigned)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-slate-600 dark:text-slate-400">To be assigned</p>
+              <p
+                className={`text-xl font-bold ${
+                  toBeAssigned < 0
+                    ? 'text-red-600 dark:text-red-400'
+                    : toBeAssigned > 0
+                      ? 'text-amber-600 dark:text-amber-400'
+                      : 'text-green-600 dark:text-green-400'
+                }`}
+              >
+                {formatCurrency(toBeAssigned)}
+              </p>
+            </div>
+          </div>
+
+          {toBeAssigned < 0 ? (
+            <div className="mb-4 p-3 rounded-lg flex items-start gap-2 bg-red-50 dark:bg-red-900/20">
+              <AlertCircle className="w-5 h-5 flex-shrink-0 text-red-600 dark:text-red-400" />
+              <p className="text-sm text-red-700 dark:text-red-300">
+                You've assigned {formatCurrency(-toBeAssigned)} more than you earned this month. Reduce some
+                categories until nothing is over-assigned.
+              </p>
+            </div>
+          ) : toBeAssigned === 0 && income > 0 ? (
+            <p className="mb-4 text-sm text-green-700 dark:text-green-400">Every dollar has a job.</p>
+          ) : null}
+
+          <div className="divide-y divide-slate-200 dark:divide-slate-700">
+            {categories.map((category) => {
+              const budget = monthlyBudgets.find((b) => b.category_id === category.id);
+              const draft = assignDrafts[category.id];
+
+              return (
+                <div key={category.id} className="flex items-center gap-4 py-2">
+                  <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: category.color }} />
+                  <span className="flex-1 text-slate-900 dark:text-white">{category.name}</span>
+                  <span className="w-28 text-right text-sm text-slate-600 dark:text-slate-400">
+                    {budget ? `${formatCurrency(budget.spent)} spent` : ''}
+                  </span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={draft ?? (budget ? String(budget.amount) : '')}
+                    onChange={(e) => setAssignDrafts({ ...assignDrafts, [category.id]: e.target.value })}
+                    onBlur={() => handleAssign(category.id)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                    }}
+                    className="w-32 px-3 py-1.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-right text-slate-900 dark:text-white"
+                    placeholder="0.00"
+                    aria-label={`Assign to ${category.name}`}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       <div className="grid gap-4">
         {budgets.length === 0 ? (
           <div className="bg-white dark:bg-slate-800 rounded-2xl p-12 text-center border border-slate-200 dark:border-slate-700">
@@ -255,8 +636,11 @@ export function Budget() {
           </div>
         ) : (
           budgets.map((budget) => {
-            const percentage = (budget.spent / budget.amount) * 100;
-            const remaining = budget.amount - budget.spent;
+            const percentage = usedPercentage(budget);
+            const level = budgetLevel(percentage, budget.alert_thresholds);
+            const remaining = availableFor(budget) - budget.spent;
+            const pace = paceFor(budget);
+            const budgetAlerts = alerts.filter((alert) => alert.budget_id === budget.id);
 
             return (
               <div
@@ -278,30 +662,71 @@ export function Budget() {
                       <h4 className="font-semibold text-slate-900 dark:text-white">
                         {budget.category?.name}
                       </h4>
+                      {budget.period !== 'monthly' && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          {periodLabel(budget.period)} · {describeWindow(budget)}
+                        </p>
+                      )}
                       <p className="text-sm text-slate-600 dark:text-slate-400">
                         Budget: {formatCurrency(budget.amount)}
+                        {budget.carried_over !== 0 && (
+                          <span
+                            className={
+                              budget.carried_over < 0
+                                ? 'text-red-600 dark:text-red-400'
+                                : 'text-green-600 dark:text-green-400'
+                            }
+                          >
+                            {' '}
+                            {budget.carried_over > 0 ? '+' : '−'}
+                            {formatCurrency(Math.abs(budget.carried_over))} carried over
+                          </span>
+                        )}
                       </p>
+                      {budget.period === 'monthly' && (
+                        <button
+                          onClick={() => handleToggleRollover(budget)}
+                          className={`mt-1 flex items-center gap-1 text-xs font-medium ${
+                            budget.rollover
+                              ? 'text-blue-600 dark:text-blue-400'
+                              : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-300'
+                          }`}
+                          title="Carry this month's leftover into next month"
+                        >
+                          <Repeat className="w-3 h-3" />
+                          <span>{budget.rollover ? 'Rolls over to next month' : 'No rollover'}</span>
+                        </button>
+                      )}
                     </div>
                   </div>
 
-                  <div className="text-right">
-                    <p
-                      className={`text-lg font-bold ${
-                        percentage >= 100
-                          ? 'text-red-600 dark:text-red-400'
-                          : 'text-slate-900 dark:text-white'
-                      }`}
+                  <div className="flex items-start gap-3">
+                    <button
+                      onClick={() => openEditModal(budget)}
+                      className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+                      title="Edit budget"
                     >
-                      {formatCurrency(budget.spent)}
-                    </p>
-                    <p className="text-xs text-slate-600 dark:text-slate-400">spent</p>
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <div className="text-right">
+                      <p
+                        className={`text-lg font-bold ${
+                          level === 'over'
+                            ? 'text-red-600 dark:text-red-400'
+                            : 'text-slate-900 dark:text-white'
+                        }`}
+                      >
+                        {formatCurrency(budget.spent)}
+                      </p>
+                      <p className="text-xs text-slate-600 dark:text-slate-400">spent</p>
+                    </div>
                   </div>
                 </div>
 
                 <div className="space-y-2">
-                  <div className={`h-2 ${getProgressBarColor(percentage)} rounded-full overflow-hidden`}>
+                  <div className={`h-2 ${getProgressBarColor(level)} rounded-full overflow-hidden`}>
                     <div
-                      className={`h-full ${getProgressColor(percentage)} transition-all duration-500`}
+                      className={`h-full ${getProgressColor(level)} transition-all duration-500`}
                       style={{ width: `${Math.min(100, percentage)}%` }}
                     />
                   </div>
@@ -309,7 +734,7 @@ export function Budget() {
                   <div className="flex items-center justify-between text-sm">
                     <span
                       className={`font-medium ${
-                        percentage >= 100
+                        level === 'over'
                           ? 'text-red-600 dark:text-red-400'
                           : 'text-slate-700 dark:text-slate-300'
                       }`}
@@ -328,33 +753,84 @@ export function Budget() {
                       {remaining >= 0 ? ' left' : ''}
                     </span>
                   </div>
+
+                  {pace && (
+                    <p
+                      className={`flex items-center gap-1 text-xs ${
+                        pace.used > pace.elapsed
+                          ? 'text-amber-600 dark:text-amber-400'
+                          : 'text-slate-600 dark:text-slate-400'
+                      }`}
+                    >
+                      <Gauge className="w-3 h-3" />
+                      You've used {pace.used.toFixed(0)}% of the budget {pace.elapsed.toFixed(0)}% of the way
+                      through the period
+                    </p>
+                  )}
+
+                  <div className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+                    <span className="flex items-center gap-1">
+                      <Bell className="w-3 h-3" />
+                      {budget.alert_thresholds.length > 0
+                        ? `Alerts at ${budget.alert_thresholds.map((threshold) => `${threshold}%`).join(', ')}`
+                        : 'No alerts'}
+                    </span>
+                    {budgetAlerts.length > 0 && (
+                      <button
+                        onClick={() => setHistoryBudgetId(historyBudgetId === budget.id ? null : budget.id)}
+                        className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        {historyBudgetId === budget.id ? 'Hide' : 'Show'} alert history ({budgetAlerts.length})
+                      </button>
+                    )}
+                  </div>
+
+                  {historyBudgetId === budget.id && (
+                    <ul className="divide-y divide-slate-200 dark:divide-slate-700 text-sm">
+                      {budgetAlerts.map((alert) => (
+                        <li key={alert.id} className="flex items-center justify-between py-2">
+                          <span className="text-slate-700 dark:text-slate-300">
+                            Passed {alert.threshold}% · {formatCurrency(alert.spent)} of{' '}
+                            {formatCurrency(alert.available)}
+                          </span>
+                          <span className="text-slate-500 dark:text-slate-400">
+                            {formatDate(alert.created_at)}
+                            {budget.period !== 'monthly' &&
+                              ` (${formatDate(alert.window_start)} – ${formatDate(alert.window_end)})`}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
 
-                {percentage >= 80 && (
+                {level !== 'ok' && (
                   <div
                     className={`mt-4 p-3 rounded-lg flex items-start gap-2 ${
-                      percentage >= 100
+                      level === 'over'
                         ? 'bg-red-50 dark:bg-red-900/20'
                         : 'bg-amber-50 dark:bg-amber-900/20'
                     }`}
                   >
                     <AlertCircle
                       className={`w-5 h-5 flex-shrink-0 ${
-                        percentage >= 100
+                        level === 'over'
                           ? 'text-red-600 dark:text-red-400'
                           : 'text-amber-600 dark:text-amber-400'
                       }`}
                     />
                     <p
                       className={`text-sm ${
-                        percentage >= 100
+                        level === 'over'
                           ? 'text-red-700 dark:text-red-300'
                           : 'text-amber-700 dark:text-amber-300'
                       }`}
                     >
-                      {percentage >= 100
-                        ? "You've exceeded your budget for this category!"
-                        : 'You are approaching your budget limit. Consider reducing spending.'}
+                      {level === 'warning'
+                        ? 'You are approaching your budget limit. Consider reducing spending.'
+                        : percentage >= 100
+                          ? "You've exceeded your budget for this category!"
+                          : `You've used ${percentage.toFixed(0)}% of your budget for this category.`}
                     </p>
                   </div>
                 )}
@@ -368,7 +844,9 @@ export function Budget() {
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 w-full max-w-md shadow-xl">
             <div className="flex items-center justify-between mb-6">
-              <h3 className="text-xl font-bold text-slate-900 dark:text-white">Set Budget</h3>
+              <h3 className="text-xl font-bold text-slate-900 dark:text-white">
+                {editingBudgetId ? 'Edit Budget' : 'Set Budget'}
+              </h3>
               <button
                 onClick={() => setShowModal(false)}
                 className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
@@ -377,16 +855,67 @@ export function Budget() {
               </button>
             </div>
 
+            {error && (
+              <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+                {error}
+              </div>
+            )}
+
             <form onSubmit={handleSubmit} className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
                   Period
                 </label>
-                <div className="text-sm text-slate-600 dark:text-slate-400 px-4 py-2.5 bg-slate-50 dark:bg-slate-700 rounded-lg">
-                  {monthNames[selectedMonth - 1]} {selectedYear}
-                </div>
+                <select
+                  value={formData.period}
+                  onChange={(e) => setFormData({ ...formData, period: e.target.value as BudgetPeriod })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                >
+                  {budgetPeriods.map((period) => (
+                    <option key={period.value} value={period.value}>
+                      {period.label}
+                    </option>
+                  ))}
+                </select>
+                {formData.period === 'monthly' && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                    {monthNames[selectedMonth - 1]} {selectedYear}
+                  </p>
+                )}
               </div>
 
+              {formData.period !== 'monthly' && (
+                <div className={formData.period === 'custom' ? 'grid grid-cols-2 gap-3' : ''}>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      {formData.period === 'custom' ? 'From' : 'Starts On'}
+                    </label>
+                    <input
+                      type="date"
+                      value={formData.start_date}
+                      onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                      className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                      required
+                    />
+                  </div>
+                  {formData.period === 'custom' && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                        To
+                      </label>
+                      <input
+                        type="date"
+                        value={formData.end_date}
+                        min={formData.start_date}
+                        onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                        className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                        required
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
                   Category
@@ -412,14 +941,51 @@ export function Budget() {
                 <input
                   type="number"
                   step="0.01"
+                  min="0"
                   value={formData.amount}
                   onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
                   className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
                   placeholder="0.00"
                   required
                 />
+                {modalOverAssigned && (
+                  <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+                    This assigns more than the {formatCurrency(Math.max(toBeAssigned, 0))} left to assign this month.
+                  </p>
+                )}
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Alert At (% of budget)
+                </label>
+                <input
+                  type="text"
+                  value={formData.alert_thresholds}
+                  onChange={(e) => setFormData({ ...formData, alert_thresholds: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  placeholder="80, 100"
+                />
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                  You're notified once per period when spending passes each percentage. Leave empty for no alerts.
+                </p>
+              </div>
+
+              {formData.period === 'monthly' && (
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    id="rollover"
+                    checked={formData.rollover}
+                    onChange={(e) => setFormData({ ...formData, rollover: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 bg-slate-100 border-slate-300 rounded focus:ring-blue-500"
+                  />
+                  <label htmlFor="rollover" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                    Roll unspent or overspent amount into next month
+                  </label>
+                </div>
+              )}
+
               <div className="flex gap-3 pt-4">
                 <button
                   type="button"
@@ -0,0 +1,552 @@
+import { useEffect, useState } from 'react';
+import { Plus, X, Pencil, Trash2, GitMerge, AlertCircle, Tags } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { categoryColors, categoryIcons, getCategoryIcon } from '../lib/categoryIcons';
+
+type CategoryType = 'income' | 'expense';
+
+interface Category {
+  id: string;
+  name: string;
+  type: CategoryType;
+  icon: string;
+  color: string;
+  transactionCount: number;
+}
+
+const emptyForm = () => ({
+  name: '',
+  type: 'expense' as CategoryType,
+  icon: 'circle',
+  color: categoryColors[0],
+});
+
+export function Categories() {
+  const { user } = useAuth();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showModal, setShowModal] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [mergingCategory, setMergingCategory] = useState<Category | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    if (user) {
+      loadCategories();
+    }
+  }, [user]);
+
+  const loadCategories = async () => {
+    if (!user) return;
+
+    const { data } = await supabase
+      .from('categories')
+      .select(`
+        *,
+        transactions (count)
+      `)
+      .eq('user_id', user.id)
+      .order('name');
+
+    if (data) {
+      setCategories(
+        data.map(({ transactions, ...category }) => ({
+          ...category,
+          transactionCount: transactions[0]?.count ?? 0,
+        }))
+      );
+    }
+
+    setLoading(false);
+  };
+
+  const openAddModal = (type: CategoryType) => {
+    setEditingCategory(null);
+    setFormData({ ...emptyForm(), type });
+    setError('');
+    setShowModal(true);
+  };
+
+  const openEditModal = (category: Category) => {
+    setEditingCategory(category);
+    setFormData({
+      name: category.name,
+      type: category.type,
+      icon: category.icon,
+      color: category.color,
+    });
+    setError('');
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingCategory(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const name = formData.name.trim();
+    const duplicate = categories.some(
+      (cat) =>
+        cat.id !== editingCategory?.id &&
+        cat.type === formData.type &&
+        cat.name.toLowerCase() === name.toLowerCase()
+    );
+
+    if (duplicate) {
+      setError(`A ${formData.type} category named "${name}" already exists.`);
+      return;
+    }
+
+    setSaving(true);
+
+    const { error } = editingCategory
+      ? await supabase
+          .from('categories')
+          .update({ name, icon: formData.icon, color: formData.color })
+          .eq('id', editingCategory.id)
+      : await supabase.from('categories').insert({
+          user_id: user.id,
+          name,
+          type: formData.type,
+          icon: formData.icon,
+          color: formData.color,
+        });
+
+    setSaving(false);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setError('');
+      closeModal();
+      loadCategories();
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (category.transactionCount > 0) {
+      openMergeModal(category);
+      return;
+    }
+
+    // Recurring series and goals keep their category, so the database refuses to delete it from under them
+    const [{ count: recurringCount }, { count: goalCount }] = await Promise.all([
+      supabase
+        .from('recurring_transactions')
+        .select('id', { count: 'exact', head: true })
+        .eq('category_id', category.id),
+      supabase.from('goals').select('id', { count: 'exact', head: true }).eq('category_id', category.id),
+    ]);
+
+    if (recurringCount) {
+      const series = recurringCount === 1 ? 'a recurring transaction' : `${recurringCount} recurring transactions`;
+      setError(
+        `"${category.name}" is used by ${series}. ` +
+          'Merge this category into another one to move them, or change their category first.'
+      );
+      return;
+    }
+
+    if (goalCount) {
+      setError(
+        `"${category.name}" is used by ${goalCount === 1 ? 'a savings goal' : `${goalCount} savings goals`}. ` +
+          'Link the goal to another category or merge this category into another one instead.'
+      );
+      return;
+    }
+
+    if (!confirm(`Delete the "${category.name}" category? Its budgets will be removed as well.`)) return;
+
+    const { error } = await supabase.from('categories').delete().eq('id', category.id);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      loadCategories();
+    }
+  };
+
+  const openMergeModal = (category: Category) => {
+    const target = categories.find((cat) => cat.type === category.type && cat.id !== category.id);
+    setMergingCategory(category);
+    setMergeTargetId(target?.id ?? '');
+    setError('');
+  };
+
+  const handleMerge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mergingCategory || !mergeTargetId) return;
+
+    setSaving(true);
+
+    const { error } = await supabase.rpc('merge_categories', {
+      source_category_id: mergingCategory.id,
+      target_category_id: mergeTargetId,
+    });
+
+    setSaving(false);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setError('');
+      setMergingCategory(null);
+      loadCategories();
+    }
+  };
+
+  const mergeTargets = mergingCategory
+    ? categories.filter((cat) => cat.type === mergingCategory.type && cat.id !== mergingCategory.id)
+    : [];
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const renderGroup = (type: CategoryType) => {
+    const group = categories.filter((cat) => cat.type === type);
+
+    return (
+      <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white">
+            {type === 'income' ? 'Income Categories' : 'Expense Categories'}
+          </h3>
+          <button
+            onClick={() => openAddModal(type)}
+            className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add</span>
+          </button>
+        </div>
+
+        {group.length === 0 ? (
+          <p className="text-center text-slate-500 dark:text-slate-400 py-8">
+            No {type} categories yet.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {group.map((category) => {
+              const Icon = getCategoryIcon(category.icon);
+
+              return (
+                <div
+                  key={category.id}
+                  className="flex items-center gap-4 p-3 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                >
+                  <div className="p-2 rounded-lg" style={{ backgroundColor: `${category.color}20` }}>
+                    <Icon className="w-5 h-5" style={{ color: category.color }} />
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-slate-900 dark:text-white truncate">{category.name}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {category.transactionCount} transaction{category.transactionCount === 1 ? '' : 's'}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => openEditModal(category)}
+                      className="text-slate-500 hover:text-blue-600 dark:text-slate-400 dark:hover:text-blue-400"
+                      title="Edit category"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => openMergeModal(category)}
+                      className="text-slate-500 hover:text-purple-600 dark:text-slate-400 dark:hover:text-purple-400"
+                      title="Merge into another category"
+                    >
+                      <GitMerge className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(category)}
+                      className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                      title="Delete category"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Categories</h2>
+          <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+            Organize how your money comes in and goes out
+          </p>
+        </div>
+
+        <button
+          onClick={() => openAddModal('expense')}
+          className="flex items-center gap-2 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+        >
+          <Plus className="w-5 h-5" />
+          <span>Add Category</span>
+        </button>
+      </div>
+
+      {error && !showModal && !mergingCategory && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      {categories.length === 0 ? (
+        <div className="bg-white dark:bg-slate-800 rounded-2xl p-12 text-center border border-slate-200 dark:border-slate-700">
+          <Tags className="w-12 h-12 text-slate-400 mx-auto mb-4" />
+          <p className="text-slate-600 dark:text-slate-400">
+            No categories yet. Add one to start organizing your transactions!
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {renderGroup('income')}
+          {renderGroup('expense')}
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 w-full max-w-md shadow-xl">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-bold text-slate-900 dark:text-white">
+                {editingCategory ? 'Edit Category' : 'Add Category'}
+              </h3>
+              <button
+                onClick={closeModal}
+                className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Type
+                </label>
+                <div className="flex gap-2">
+                  {(['income', 'expense'] as CategoryType[]).map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      disabled={!!editingCategory}
+                      onClick={() => setFormData({ ...formData, type })}
+                      className={`flex-1 py-2.5 rounded-lg font-medium transition-colors disabled:cursor-not-allowed ${
+                        formData.type === type
+                          ? type === 'income'
+                            ? 'bg-green-600 text-white'
+                            : 'bg-red-600 text-white'
+                          : 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 disabled:opacity-50'
+                      }`}
+                    >
+                      {type === 'income' ? 'Income' : 'Expense'}
+                    </button>
+                  ))}
+                </div>
+                {editingCategory && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                    The type can't be changed once a category exists
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  placeholder="e.g., Rent"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Color
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {categoryColors.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => setFormData({ ...formData, color })}
+                      className={`w-8 h-8 rounded-full transition-transform ${
+                        formData.color === color
+                          ? 'ring-2 ring-offset-2 ring-slate-900 dark:ring-white dark:ring-offset-slate-800 scale-110'
+                          : ''
+                      }`}
+                      style={{ backgroundColor: color }}
+                      title={color}
+                    />
+                  ))}
+                  <input
+                    type="color"
+                    value={formData.color}
+                    onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+                    className="w-8 h-8 rounded-full cursor-pointer bg-transparent"
+                    title="Custom color"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Icon
+                </label>
+                <div className="grid grid-cols-7 gap-2">
+                  {Object.entries(categoryIcons).map(([key, Icon]) => (
+                    <button
+                      key={key}
+                      type="button"
+                      onClick={() => setFormData({ ...formData, icon: key })}
+                      className={`p-2 rounded-lg flex items-center justify-center transition-colors ${
+                        formData.icon === key
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
+                      }`}
+                      title={key}
+                    >
+                      <Icon className="w-5 h-5" />
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="flex-1 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="flex-1 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {editingCategory ? 'Save Changes' : 'Add Category'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {mergingCategory && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 w-full max-w-md shadow-xl">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-bold text-slate-900 dark:text-white">
+                Merge "{mergingCategory.name}"
+              </h3>
+              <button
+                onClick={() => setMergingCategory(null)}
+                className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+              </div>
+            )}
+
+            {mergeTargets.length === 0 ? (
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                There is no other {mergingCategory.type} category to merge into. Create one first.
+              </p>
+            ) : (
+              <form onSubmit={handleMerge} className="space-y-4">
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  {mergingCategory.transactionCount > 0
+                    ? `"${mergingCategory.name}" is used by ${mergingCategory.transactionCount} transaction${mergingCategory.transactionCount === 1 ? '' : 's'}. `
+                    : ''}
+                  Its transactions, budgets, bill reminders, recurring transactions and goals will be moved to
+                  the category below, and
+                  "{mergingCategory.name}" will be deleted.
+                </p>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Merge into
+                  </label>
+                  <select
+                    value={mergeTargetId}
+                    onChange={(e) => setMergeTargetId(e.target.value)}
+                    className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                    required
+                  >
+                    {mergeTargets.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex gap-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setMergingCategory(null)}
+                    className="flex-1 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="flex-1 px-4 py-2.5 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Merge & Delete
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,666 @@
+import { useEffect, useState } from 'react';
+import { Plus, X, Pencil, Trash2, Archive, ArchiveRestore, AlertCircle, PiggyBank, HandCoins } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { goalProgress, goalStatuses, loadGoals, savedByGoal, type Goal, type GoalContribution } from '../lib/goals';
+
+interface Account {
+  id: string;
+  name: string;
+  is_archived: boolean;
+}
+
+interface Category {
+  id: string;
+  name: string;
+  color: string;
+}
+
+type GoalLink = 'account' | 'category';
+
+const emptyGoalForm = () => ({
+  name: '',
+  target_amount: '',
+  target_date: '',
+  link: 'account' as GoalLink,
+  account_id: '',
+  category_id: '',
+  color: '#10b981',
+});
+
+const emptyContributionForm = (accountId = '') => ({
+  amount: '',
+  account_id: accountId,
+  description: '',
+  date: new Date().toISOString().split('T')[0],
+});
+
+export function Goals() {
+  const { user } = useAuth();
+  const { formatCurrency, formatDate } = useCurrency();
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [contributions, setContributions] = useState<GoalContribution[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [expandedGoalId, setExpandedGoalId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const [showGoalModal, setShowGoalModal] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [goalForm, setGoalForm] = useState(emptyGoalForm());
+
+  const [contributingGoal, setContributingGoal] = useState<Goal | null>(null);
+  const [contributionForm, setContributionForm] = useState(emptyContributionForm());
+
+  useEffect(() => {
+    if (user) {
+      loadData();
+    }
+  }, [user]);
+
+  const loadData = async () => {
+    if (!user) return;
+
+    const [goalData, { data: accountData }, { data: categoryData }] = await Promise.all([
+      loadGoals(user.id),
+      supabase.from('accounts').select('id, name, is_archived').eq('user_id', user.id).order('created_at'),
+      supabase.from('categories').select('id, name, color').eq('user_id', user.id).eq('type', 'expense').order('name'),
+    ]);
+
+    setGoals(goalData.goals);
+    setContributions(goalData.contributions);
+    if (accountData) setAccounts(accountData);
+    if (categoryData) setCategories(categoryData);
+
+    setLoading(false);
+  };
+
+  const activeAccounts = accounts.filter((account) => !account.is_archived);
+  const saved = savedByGoal(contributions);
+  const visibleGoals = goals.filter((goal) => showArchived || !goal.is_archived);
+  const activeGoals = goals.filter((goal) => !goal.is_archived);
+  const totalTarget = activeGoals.reduce((sum, goal) => sum + Number(goal.target_amount), 0);
+  const totalSaved = activeGoals.reduce((sum, goal) => sum + Math.min(saved[goal.id] || 0, Number(goal.target_amount)), 0);
+
+  const accountName = (id: string | null) => accounts.find((account) => account.id === id)?.name ?? 'Unknown';
+  const categoryName = (id: string | null) => categories.find((category) => category.id === id)?.name ?? 'Unknown';
+
+  const openAddGoal = () => {
+    setEditingGoal(null);
+    setGoalForm({ ...emptyGoalForm(), account_id: activeAccounts[0]?.id ?? '', category_id: categories[0]?.id ?? '' });
+    setError('');
+    setShowGoalModal(true);
+  };
+
+  const openEditGoal = (goal: Goal) => {
+    setEditingGoal(goal);
+    setGoalForm({
+      name: goal.name,
+      target_amount: String(goal.target_amount),
+      target_date: goal.target_date ?? '',
+      link: goal.account_id ? 'account' : 'category',
+      account_id: goal.account_id ?? activeAccounts[0]?.id ?? '',
+      category_id: goal.category_id ?? categories[0]?.id ?? '',
+      color: goal.color,
+    });
+    setError('');
+    setShowGoalModal(true);
+  };
+
+  const handleGoalSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const values = {
+      name: goalForm.name.trim(),
+      target_amount: parseFloat(goalForm.target_amount),
+      target_date: goalForm.target_date || null,
+      account_id: goalForm.link === 'account' ? goalForm.account_id : null,
+      category_id: goalForm.link === 'category' ? goalForm.category_id : null,
+      color: goalForm.color,
+    };
+
+    const { error } = editingGoal
+      ? await supabase.from('goals').update(values).eq('id', editingGoal.id)
+      : await supabase.from('goals').insert({ ...values, user_id: user.id });
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setShowGoalModal(false);
+      loadData();
+    }
+  };
+
+  const handleToggleArchived = async (goal: Goal) => {
+    const { error } = await supabase.from('goals').update({ is_archived: !goal.is_archived }).eq('id', goal.id);
+
+    if (!error) {
+      loadData();
+    }
+  };
+
+  const handleDeleteGoal = async (goal: Goal) => {
+    if (!confirm(`Delete the "${goal.name}" goal? Its contributions stay in your transactions.`)) return;
+
+    const { error } = await supabase.from('goals').delete().eq('id', goal.id);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setError('');
+      loadData();
+    }
+  };
+
+  const openContribute = (goal: Goal) => {
+    const source = activeAccounts.find((account) => account.id !== goal.account_id);
+    setContributingGoal(goal);
+    setContributionForm(emptyContributionForm(source?.id));
+    setError('');
+  };
+
+  // A contribution is a transfer into the goal's account, or an expense in the goal's category
+  const handleContributionSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !contributingGoal) return;
+
+    const { error } = await supabase.from('transactions').insert({
+      user_id: user.id,
+      goal_id: contributingGoal.id,
+      type: contributingGoal.account_id ? 'transfer' : 'expense',
+      category_id: contributingGoal.category_id,
+      account_id: contributionForm.account_id || null,
+      transfer_account_id: contributingGoal.account_id,
+      amount: parseFloat(contributionForm.amount),
+      description: contributionForm.description || contributingGoal.name,
+      date: contributionForm.date,
+    });
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setContributingGoal(null);
+      loadData();
+    }
+  };
+
+  const handleDeleteContribution = async (contribution: GoalContribution) => {
+    if (!confirm('Delete this contribution? The transaction is removed as well.')) return;
+
+    const { error } = await supabase.from('transactions').delete().eq('id', contribution.id);
+
+    if (!error) {
+      loadData();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+            className="w-4 h-4 text-blue-600 bg-slate-100 border-slate-300 rounded focus:ring-blue-500"
+          />
+          Show archived goals
+        </label>
+
+        <button
+          onClick={openAddGoal}
+          className="flex items-center gap-2 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+        >
+          <Plus className="w-5 h-5" />
+          <span>Add Goal</span>
+        </button>
+      </div>
+
+      {error && !showGoalModal && !contributingGoal && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-gradient-to-br from-emerald-500 to-green-600 rounded-2xl p-6 text-white shadow-lg">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <p className="text-green-100 text-sm font-medium">Saved Towards Goals</p>
+            <h3 className="text-3xl font-bold mt-1">{formatCurrency(totalSaved)}</h3>
+            <p className="text-xs text-green-100 mt-2">
+              of {formatCurrency(totalTarget)} across {activeGoals.length} goal{activeGoals.length === 1 ? '' : 's'}
+            </p>
+          </div>
+          <div className="bg-white/20 p-3 rounded-xl">
+            <PiggyBank className="w-6 h-6" />
+          </div>
+        </div>
+        <div className="h-3 bg-white/20 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-white transition-all duration-500"
+            style={{ width: `${totalTarget > 0 ? Math.min(100, (totalSaved / totalTarget) * 100) : 0}%` }}
+          />
+        </div>
+      </div>
+
+      {visibleGoals.length === 0 ? (
+        <div className="bg-white dark:bg-slate-800 rounded-2xl p-12 text-center border border-slate-200 dark:border-slate-700">
+          <PiggyBank className="w-12 h-12 text-slate-400 mx-auto mb-4" />
+          <p className="text-slate-600 dark:text-slate-400">
+            No savings goals yet. Add one to start putting money aside for it!
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {visibleGoals.map((goal) => {
+            const progress = goalProgress(goal, saved[goal.id] || 0);
+            const status = goalStatuses[progress.status];
+            const goalContributions = contributions.filter((contribution) => contribution.goal_id === goal.id);
+
+            return (
+              <div
+                key={goal.id}
+                className={`bg-white dark:bg-slate-800 rounded-xl p-6 shadow-sm border border-slate-200 dark:border-slate-700 ${
+                  goal.is_archived ? 'opacity-60' : ''
+                }`}
+              >
+                <div className="flex items-start justify-between mb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="p-3 rounded-lg" style={{ backgroundColor: `${goal.color}20` }}>
+                      <PiggyBank className="w-6 h-6" style={{ color: goal.color }} />
+                    </div>
+                    <div>
+                      <h4 className="font-semibold text-slate-900 dark:text-white">{goal.name}</h4>
+                      <p className="text-sm text-slate-600 dark:text-slate-400">
+                        {goal.account_id
+                          ? `Saved in ${accountName(goal.account_id)}`
+                          : `Booked to ${categoryName(goal.category_id)}`}
+                        {goal.is_archived ? ' · Archived' : ''}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => openEditGoal(goal)}
+                      className="text-slate-400 hover:text-blue-600 dark:hover:text-blue-400"
+                      title="Edit goal"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleToggleArchived(goal)}
+                      className="text-slate-400 hover:text-amber-600 dark:hover:text-amber-400"
+                      title={goal.is_archived ? 'Restore goal' : 'Archive goal'}
+                    >
+                      {goal.is_archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteGoal(goal)}
+                      className="text-slate-400 hover:text-red-600 dark:hover:text-red-400"
+                      title="Delete goal"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="flex items-end justify-between mb-2">
+                  <p className="text-2xl font-bold text-slate-900 dark:text-white">
+                    {formatCurrency(progress.saved)}
+                    <span className="text-sm font-normal text-slate-500 dark:text-slate-400">
+                      {' '}
+                      of {formatCurrency(Number(goal.target_amount))}
+                    </span>
+                  </p>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+                    {status.label}
+                  </span>
+                </div>
+
+                <div className="h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full transition-all duration-500"
+                    style={{ width: `${progress.percentage}%`, backgroundColor: goal.color }}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between text-sm mt-2">
+                  <span className="text-slate-600 dark:text-slate-400">{progress.percentage.toFixed(1)}% saved</span>
+                  {goal.target_date && (
+                    <span className="text-slate-600 dark:text-slate-400">by {formatDate(goal.target_date)}</span>
+                  )}
+                </div>
+
+                {progress.monthlyNeeded !== null && (
+                  <p className="mt-3 text-sm text-slate-700 dark:text-slate-300">
+                    Save <span className="font-semibold">{formatCurrency(progress.monthlyNeeded)}</span> a month for{' '}
+                    {progress.monthsLeft} month{progress.monthsLeft === 1 ? '' : 's'} to reach it on time.
+                  </p>
+                )}
+                {progress.status === 'overdue' && (
+                  <p className="mt-3 text-sm text-red-600 dark:text-red-400">
+                    {formatCurrency(progress.remaining)} short of the target. Move the date or keep contributing.
+                  </p>
+                )}
+
+                <div className="flex items-center justify-between mt-4">
+                  <button
+                    onClick={() => setExpandedGoalId(expandedGoalId === goal.id ? null : goal.id)}
+                    className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {expandedGoalId === goal.id ? 'Hide' : 'Show'} contributions ({goalContributions.length})
+                  </button>
+                  {!goal.is_archived && progress.status !== 'completed' && (
+                    <button
+                      onClick={() => openContribute(goal)}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg font-medium transition-colors"
+                    >
+                      <HandCoins className="w-4 h-4" />
+                      <span>Contribute</span>
+                    </button>
+                  )}
+                </div>
+
+                {expandedGoalId === goal.id && (
+                  <ul className="mt-3 divide-y divide-slate-200 dark:divide-slate-700 text-sm">
+                    {goalContributions.length === 0 ? (
+                      <li className="py-2 text-slate-500 dark:text-slate-400">No contributions yet.</li>
+                    ) : (
+                      goalContributions.map((contribution) => (
+                        <li key={contribution.id} className="flex items-center justify-between gap-3 py-2">
+                          <span className="text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                            {formatDate(contribution.date)}
+                          </span>
+                          <span className="flex-1 truncate text-slate-700 dark:text-slate-300">
+                            {contribution.description}
+                          </span>
+                          <span className="font-medium text-slate-900 dark:text-white">
+                            {formatCurrency(Number(contribution.amount), contribution.currency)}
+                          </span>
+                          <button
+                            onClick={() => handleDeleteContribution(contribution)}
+                            className="text-slate-400 hover:text-red-600 dark:hover:text-red-400"
+                            title="Delete contribution"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </li>
+                      ))
+                    )}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showGoalModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 w-full max-w-md shadow-xl">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-bold text-slate-900 dark:text-white">
+                {editingGoal ? 'Edit Goal' : 'Add Goal'}
+              </h3>
+              <button
+                onClick={() => setShowGoalModal(false)}
+                className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+                {error}
+              </div>
+            )}
+
+            <form onSubmit={handleGoalSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Goal Name
+                </label>
+                <input
+                  type="text"
+                  value={goalForm.name}
+                  onChange={(e) => setGoalForm({ ...goalForm, name: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  placeholder="e.g., Emergency Fund"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Target Amount
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    value={goalForm.target_amount}
+                    onChange={(e) => setGoalForm({ ...goalForm, target_amount: e.target.value })}
+                    className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                    placeholder="0.00"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Target Date
+                  </label>
+                  <input
+                    type="date"
+                    value={goalForm.target_date}
+                    onChange={(e) => setGoalForm({ ...goalForm, target_date: e.target.value })}
+                    className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Contributions Go To
+                </label>
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                  {(['account', 'category'] as const).map((link) => (
+                    <button
+                      key={link}
+                      type="button"
+                      onClick={() => setGoalForm({ ...goalForm, link })}
+                      className={`py-2.5 rounded-lg font-medium transition-colors ${
+                        goalForm.link === link
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300'
+                      }`}
+                    >
+                      {link === 'account' ? 'An account' : 'A category'}
+                    </button>
+                  ))}
+                </div>
+                {goalForm.link === 'account' ? (
+                  <select
+                    value={goalForm.account_id}
+                    onChange={(e) => setGoalForm({ ...goalForm, account_id: e.target.value })}
+                    className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                    required
+                  >
+                    {activeAccounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <select
+                    value={goalForm.category_id}
+                    onChange={(e) => setGoalForm({ ...goalForm, category_id: e.target.value })}
+                    className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                    required
+                  >
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                  {goalForm.link === 'account'
+                    ? 'Contributions are recorded as transfers into this account.'
+                    : 'Contributions are recorded as expenses in this category.'}
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Color</label>
+                <input
+                  type="color"
+                  value={goalForm.color}
+                  onChange={(e) => setGoalForm({ ...goalForm, color: e.target.value })}
+                  className="w-full h-11 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg cursor-pointer"
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowGoalModal(false)}
+                  className="flex-1 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+                >
+                  {editingGoal ? 'Save Changes' : 'Add Goal'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {contributingGoal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 w-full max-w-md shadow-xl">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-bold text-slate-900 dark:text-white">
+                Contribute to {contributingGoal.name}
+              </h3>
+              <button
+                onClick={() => setContributingGoal(null)}
+                className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+                {error}
+              </div>
+            )}
+
+            <form onSubmit={handleContributionSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Amount
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={contributionForm.amount}
+                  onChange={(e) => setContributionForm({ ...contributionForm, amount: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  placeholder="0.00"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  {contributingGoal.account_id ? `From (into ${accountName(contributingGoal.account_id)})` : 'Paid From'}
+                </label>
+                <select
+                  value={contributionForm.account_id}
+                  onChange={(e) => setContributionForm({ ...contributionForm, account_id: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  required
+                >
+                  {activeAccounts
+                    .filter((account) => account.id !== contributingGoal.account_id)
+                    .map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Description
+                </label>
+                <input
+                  type="text"
+                  value={contributionForm.description}
+                  onChange={(e) => setContributionForm({ ...contributionForm, description: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  placeholder={contributingGoal.name}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Date
+                </label>
+                <input
+                  type="date"
+                  value={contributionForm.date}
+                  onChange={(e) => setContributionForm({ ...contributionForm, date: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  required
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setContributingGoal(null)}
+                  className="flex-1 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+                >
+                  Contribute
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
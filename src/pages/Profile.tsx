@@ -1,10 +1,14 @@
 import { useEffect, useState } from 'react';
-import { User, Mail, DollarSign, Save } from 'lucide-react';
+import { User, Mail, DollarSign, Globe, Bell, Save, Trash2 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { currencies, locales } from '../lib/currency';
+import { NotificationSettings } from '../components/profile/NotificationSettings';
 
 export function Profile() {
   const { user } = useAuth();
+  const { rates, saveRate, deleteRate, setPreferences, formatDate } = useCurrency();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState('');
@@ -13,7 +17,11 @@ export function Profile() {
     full_name: '',
     email: '',
     currency: 'USD',
+    locale: 'en-US',
+    large_transaction_threshold: '1000',
   });
+  const [homeCurrency, setHomeCurrency] = useState('USD');
+  const [rateForm, setRateForm] = useState({ currency: 'EUR', rate: '' });
 
   useEffect(() => {
     if (user) {
@@ -35,12 +43,17 @@ export function Profile() {
         full_name: data.full_name,
         email: user.email || '',
         currency: data.currency,
+        locale: data.locale,
+        large_transaction_threshold: String(data.large_transaction_threshold),
       });
+      changeHomeCurrency(data.currency);
     } else {
       setProfileData({
         full_name: '',
         email: user.email || '',
         currency: 'USD',
+        locale: 'en-US',
+        large_transaction_threshold: '1000',
       });
     }
 
@@ -54,19 +67,21 @@ export function Profile() {
     setSaving(true);
     setMessage('');
 
-    const { error } = await supabase
-      .from('profiles')
-      .update({
-        full_name: profileData.full_name,
-        currency: profileData.currency,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', user.id);
+    const { error } = await supabase.from('profiles').upsert({
+      id: user.id,
+      full_name: profileData.full_name,
+      currency: profileData.currency,
+      locale: profileData.locale,
+      large_transaction_threshold: parseFloat(profileData.large_transaction_threshold) || 0,
+      updated_at: new Date().toISOString(),
+    });
 
     if (error) {
       setMessage('Failed to update profile');
     } else {
       setMessage('Profile updated successfully!');
+      setPreferences({ currency: profileData.currency, locale: profileData.locale });
+      changeHomeCurrency(profileData.currency);
     }
 
     setSaving(false);
@@ -74,6 +89,25 @@ export function Profile() {
     setTimeout(() => setMessage(''), 3000);
   };
 
+  const handleRateSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rate = parseFloat(rateForm.rate);
+    if (!(rate > 0) || rateForm.currency === homeCurrency) return;
+
+    await saveRate(rateForm.currency, rate);
+    setRateForm({ ...rateForm, rate: '' });
+  };
+
+  const changeHomeCurrency = (currency: string) => {
+    setHomeCurrency(currency);
+    setRateForm((prev) =>
+      prev.currency === currency
+        ? { ...prev, currency: currencies.find(({ code }) => code !== currency)?.code ?? '' }
+        : prev
+    );
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -165,15 +199,64 @@ export function Profile() {
                   }
                   className="w-full pl-10 pr-4 py-3 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
                 >
-                  <option value="USD">USD - US Dollar</option>
-                  <option value="EUR">EUR - Euro</option>
-                  <option value="GBP">GBP - British Pound</option>
-                  <option value="JPY">JPY - Japanese Yen</option>
-                  <option value="CAD">CAD - Canadian Dollar</option>
-                  <option value="AUD">AUD - Australian Dollar</option>
-                  <option value="INR">INR - Indian Rupee</option>
+                  {currencies.map(({ code, name }) => (
+                    <option key={code} value={code}>
+                      {code} - {name}
+                    </option>
+                  ))}
                 </select>
               </div>
+              {profileData.currency !== homeCurrency && (
+                <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                  Existing transactions keep their recorded rates. Review your exchange rates after
+                  changing the home currency.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Number &amp; Date Format
+              </label>
+              <div className="relative">
+                <Globe className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                <select
+                  value={profileData.locale}
+                  onChange={(e) =>
+                    setProfileData({ ...profileData, locale: e.target.value })
+                  }
+                  className="w-full pl-10 pr-4 py-3 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                >
+                  {locales.map(({ code, name }) => (
+                    <option key={code} value={code}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Large Transaction Alert
+              </label>
+              <div className="relative">
+                <Bell className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={profileData.large_transaction_threshold}
+                  onChange={(e) =>
+                    setProfileData({ ...profileData, large_transaction_threshold: e.target.value })
+                  }
+                  className="w-full pl-10 pr-4 py-3 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                />
+              </div>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                Notify me about transactions of at least this amount in {profileData.currency}. Set to 0 to
+                turn the alert off.
+              </p>
             </div>
 
             <div className="pt-4">
@@ -190,6 +273,77 @@ export function Profile() {
         </div>
       </div>
 
+      <div className="mt-6 bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">
+          Exchange Rates
+        </h3>
+        <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+          Used to convert foreign-currency transactions into {homeCurrency}. Each transaction keeps
+          the rate it was recorded with.
+        </p>
+
+        <div className="space-y-2 mb-4">
+          {Object.entries(rates).filter(([currency]) => currency !== homeCurrency).length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">No exchange rates saved yet.</p>
+          ) : (
+            Object.entries(rates)
+              .filter(([currency]) => currency !== homeCurrency)
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([currency, rate]) => (
+                <div
+                  key={currency}
+                  className="flex items-center justify-between py-2 border-b border-slate-200 dark:border-slate-700"
+                >
+                  <span className="text-slate-900 dark:text-white">
+                    1 {currency} = {rate} {homeCurrency}
+                  </span>
+                  <button
+                    onClick={() => deleteRate(currency)}
+                    className="text-slate-400 hover:text-red-600 dark:hover:text-red-400"
+                    title="Remove rate"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))
+          )}
+        </div>
+
+        <form onSubmit={handleRateSubmit} className="flex gap-3">
+          <select
+            value={rateForm.currency}
+            onChange={(e) => setRateForm({ ...rateForm, currency: e.target.value })}
+            className="px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+          >
+            {currencies
+              .filter(({ code }) => code !== homeCurrency)
+              .map(({ code }) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+          </select>
+          <input
+            type="number"
+            step="any"
+            min="0"
+            value={rateForm.rate}
+            onChange={(e) => setRateForm({ ...rateForm, rate: e.target.value })}
+            className="flex-1 px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+            placeholder={`${homeCurrency} per 1 ${rateForm.currency}`}
+            required
+          />
+          <button
+            type="submit"
+            className="px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+          >
+            Save Rate
+          </button>
+        </form>
+      </div>
+
+      <NotificationSettings />
+
       <div className="mt-6 bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-sm border border-slate-200 dark:border-slate-700">
         <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">
           Account Information
@@ -202,7 +356,7 @@ export function Profile() {
           <div className="flex justify-between py-3 border-b border-slate-200 dark:border-slate-700">
             <span className="text-slate-600 dark:text-slate-400">Member Since</span>
             <span className="font-medium text-slate-900 dark:text-white">
-              {new Date().toLocaleDateString('en-US', {
+              {formatDate(new Date().toISOString(), {
                 month: 'long',
                 year: 'numeric',
               })}
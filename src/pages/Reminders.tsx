@@ -1,7 +1,25 @@
 import { useEffect, useState } from 'react';
-import { Plus, X, Bell, AlertCircle, CheckCircle } from 'lucide-react';
+import { Plus, X, Bell, AlertCircle, CheckCircle, CircleDollarSign, Undo2, Unlink } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { ExportMenu } from '../components/export/ExportMenu';
+import { downloadCsv, downloadJson, printStatement, type ExportFormat } from '../lib/export';
+import {
+  autoMatchBillPayments,
+  describeBillSchedule,
+  emptyBillSchedule,
+  getBillPeriod,
+  monthlyCost,
+  toBillSchedule,
+  todayIso,
+  type BillPayment,
+  type BillPeriod,
+  type BillReminder,
+  type BillScheduleForm,
+} from '../lib/bills';
+import type { Account } from '../lib/accounts';
+import { BillScheduleFields } from '../components/reminders/BillScheduleFields';
 
 interface Category {
   id: string;
@@ -9,39 +27,70 @@ interface Category {
   color: string;
 }
 
-interface Reminder {
-  id: string;
-  title: string;
-  amount: number;
-  due_date: number;
-  is_recurring: boolean;
-  is_active: boolean;
-  category_id: string | null;
-  category?: Category;
+interface Reminder extends BillReminder {
+  category: Category | null;
 }
 
 export function Reminders() {
   const { user } = useAuth();
+  const { formatCurrency, formatDate } = useCurrency();
   const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [payments, setPayments] = useState<BillPayment[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
   const [showModal, setShowModal] = useState(false);
+  const [payingReminder, setPayingReminder] = useState<{ reminder: Reminder; dueOn: string } | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const [payForm, setPayForm] = useState({
+    amount: '',
+    date: todayIso(),
+    category_id: '',
+    account_id: '',
+  });
+
   const [formData, setFormData] = useState({
     title: '',
     amount: '',
-    due_date: '1',
     category_id: '',
-    is_recurring: true,
   });
+  const [schedule, setSchedule] = useState<BillScheduleForm>(emptyBillSchedule);
 
   useEffect(() => {
     if (user) {
       loadCategories();
+      loadAccounts();
       loadReminders();
     }
   }, [user]);
 
+  const loadAccounts = async () => {
+    if (!user) return;
+
+    const { data } = await supabase
+      .from('accounts')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('is_archived', false)
+      .order('created_at');
+
+    if (data) {
+      setAccounts(data);
+    }
+  };
+
+  const loadPayments = async () => {
+    if (!user) return [];
+
+    const { data } = await supabase
+      .from('bill_payments')
+      .select('*')
+      .eq('user_id', user.id);
+
+    setPayments(data ?? []);
+    return data ?? [];
+  };
+
   const loadCategories = async () => {
     if (!user) return;
 
@@ -64,13 +113,21 @@ export function Reminders() {
       .from('bill_reminders')
       .select(`
         *,
-        categories (id, name, color)
+        category:categories (id, name, color)
       `)
       .eq('user_id', user.id)
-      .order('due_date');
+      .order('created_at');
+
+    const paymentData = await loadPayments();
 
     if (data) {
-      setReminders(data as any);
+      setReminders(data);
+
+      // Expenses recorded elsewhere (imports, recurring rules) settle their bill automatically
+      const matched = await autoMatchBillPayments(user.id, data, paymentData);
+      if (matched > 0) {
+        await loadPayments();
+      }
     }
 
     setLoading(false);
@@ -84,9 +141,8 @@ export function Reminders() {
       user_id: user.id,
       title: formData.title,
       amount: parseFloat(formData.amount),
-      due_date: parseInt(formData.due_date),
       category_id: formData.category_id || null,
-      is_recurring: formData.is_recurring,
+      ...toBillSchedule(schedule),
       is_active: true,
     });
 
@@ -95,10 +151,9 @@ export function Reminders() {
       setFormData({
         title: '',
         amount: '',
-        due_date: '1',
         category_id: '',
-        is_recurring: true,
       });
+      setSchedule(emptyBillSchedule());
       loadReminders();
     }
   };
@@ -114,48 +169,125 @@ export function Reminders() {
     }
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this reminder?')) return;
+  const openPayModal = (reminder: Reminder, dueOn: string) => {
+    setPayingReminder({ reminder, dueOn });
+    setPayForm({
+      amount: String(reminder.amount),
+      date: todayIso(),
+      category_id: reminder.category_id ?? categories[0]?.id ?? '',
+      account_id: accounts[0]?.id ?? '',
+    });
+  };
 
-    const { error } = await supabase.from('bill_reminders').delete().eq('id', id);
+  const handleMarkPaid = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !payingReminder) return;
+
+    const { reminder, dueOn } = payingReminder;
+    const amount = parseFloat(payForm.amount);
+
+    const { data: transaction, error } = await supabase
+      .from('transactions')
+      .insert({
+        user_id: user.id,
+        type: 'expense',
+        amount,
+        category_id: payForm.category_id,
+        account_id: payForm.account_id || null,
+        description: reminder.title,
+        date: payForm.date,
+      })
+      .select('id')
+      .single();
+
+    if (error || !transaction) {
+      alert('Failed to record the payment. Please try again.');
+      return;
+    }
 
-    if (!error) {
-      loadReminders();
+    const { error: paymentError } = await supabase.from('bill_payments').insert({
+      user_id: user.id,
+      reminder_id: reminder.id,
+      due_on: dueOn,
+      transaction_id: transaction.id,
+      amount,
+    });
+
+    if (paymentError) {
+      // Don't leave an expense behind for a payment that wasn't recorded
+      await supabase.from('transactions').delete().eq('id', transaction.id);
+      alert('Failed to record the payment. Please try again.');
+      return;
     }
+
+    setPayingReminder(null);
+    loadPayments();
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
+  const handleUndoPayment = async (payment: BillPayment) => {
+    if (!confirm('Undo this payment? The expense transaction it created will be deleted.')) return;
+
+    // Deleting the transaction removes the payment with it
+    const { error } = payment.transaction_id
+      ? await supabase.from('transactions').delete().eq('id', payment.transaction_id)
+      : await supabase.from('bill_payments').delete().eq('id', payment.id);
+
+    if (!error) {
+      loadPayments();
+    }
   };
 
-  const getDaysUntilDue = (dueDate: number) => {
-    const today = new Date().getDate();
-    let days = dueDate - today;
-
-    if (days < 0) {
-      const daysInMonth = new Date(
-        new Date().getFullYear(),
-        new Date().getMonth() + 1,
-        0
-      ).getDate();
-      days = daysInMonth - today + dueDate;
+  // Unlinking keeps the transaction and only reopens the bill period; the dismissal stops the
+  // next automatic match from linking the same transaction again
+  const handleUnlinkPayment = async (payment: BillPayment) => {
+    if (!user || !payment.transaction_id) return;
+    if (!confirm('Unlink this transaction from the bill? The transaction itself is kept.')) return;
+
+    const { error: dismissError } = await supabase.from('bill_match_dismissals').upsert(
+      { user_id: user.id, reminder_id: payment.reminder_id, transaction_id: payment.transaction_id },
+      { onConflict: 'reminder_id,transaction_id', ignoreDuplicates: true }
+    );
+    if (dismissError) return;
+
+    const { error } = await supabase.from('bill_payments').delete().eq('id', payment.id);
+
+    if (!error) {
+      loadPayments();
     }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this reminder?')) return;
 
-    return days;
+    const { error } = await supabase.from('bill_reminders').delete().eq('id', id);
+
+    if (!error) {
+      loadReminders();
+    }
   };
 
-  const getStatusBadge = (dueDate: number, isActive: boolean) => {
-    if (!isActive) {
+  const getStatusBadge = ({ status, daysUntil, dueOn }: BillPeriod) => {
+    if (status === 'inactive') {
       return {
         text: 'Inactive',
         className: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-400',
       };
     }
 
-    const daysUntil = getDaysUntilDue(dueDate);
+    if (status === 'paid') {
+      return {
+        text: 'Paid',
+        className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+      };
+    }
+
+    if (status === 'overdue') {
+      const daysLate = -daysUntil;
+      return {
+        text: `Overdue by ${daysLate} day${daysLate === 1 ? '' : 's'}`,
+        className: 'bg-red-600 text-white dark:bg-red-700',
+      };
+    }
 
     if (daysUntil === 0) {
       return {
@@ -174,31 +306,88 @@ export function Reminders() {
       };
     } else {
       return {
-        text: `Due on ${dueDate}${getDaySuffix(dueDate)}`,
+        text: `Due on ${formatDate(dueOn, { month: 'short', day: 'numeric' })}`,
         className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
       };
     }
   };
 
-  const getDaySuffix = (day: number) => {
-    if (day >= 11 && day <= 13) return 'th';
-    switch (day % 10) {
-      case 1:
-        return 'st';
-      case 2:
-        return 'nd';
-      case 3:
-        return 'rd';
-      default:
-        return 'th';
-    }
-  };
+  const periods = Object.fromEntries(
+    reminders.map((reminder) => [reminder.id, getBillPeriod(reminder, payments)])
+  );
+
+  const sortedReminders = [...reminders].sort((a, b) => periods[a.id].dueOn.localeCompare(periods[b.id].dueOn));
 
   const upcomingReminders = reminders.filter((r) => {
-    const daysUntil = getDaysUntilDue(r.due_date);
-    return r.is_active && daysUntil <= 7;
+    const { status, daysUntil } = periods[r.id];
+    return (status === 'upcoming' || status === 'due-today') && daysUntil <= 7;
   });
 
+  const overdueReminders = reminders.filter((r) => periods[r.id].status === 'overdue');
+
+  const handleExport = (format: ExportFormat) => {
+    const rows = sortedReminders.map((reminder) => ({
+      title: reminder.title,
+      amount: Number(reminder.amount),
+      schedule: describeBillSchedule(reminder),
+      next_due: periods[reminder.id].dueOn,
+      status: periods[reminder.id].status,
+      category: reminder.category?.name ?? null,
+      active: reminder.is_active,
+    }));
+
+    if (format === 'json') {
+      downloadJson('bill-reminders', rows);
+      return;
+    }
+
+    const columns = ['Bill', 'Amount', 'Schedule', 'Next Due', 'Status', 'Category', 'Active'];
+
+    if (format === 'csv') {
+      downloadCsv('bill-reminders', {
+        columns,
+        rows: rows.map((row) => [
+          row.title,
+          row.amount,
+          row.schedule,
+          row.next_due,
+          row.status,
+          row.category,
+          row.active,
+        ]),
+      });
+      return;
+    }
+
+    const active = reminders.filter((r) => r.is_active);
+
+    printStatement({
+      title: 'Bill Reminders',
+      period: formatDate(new Date().toISOString(), { month: 'long', year: 'numeric' }),
+      summary: [
+        ['Active Bills', String(active.length)],
+        ['Monthly Total', formatCurrency(active.reduce((sum, r) => sum + monthlyCost(r), 0))],
+        ['Due in 7 Days', String(upcomingReminders.length)],
+        ['Overdue', String(overdueReminders.length)],
+      ],
+      tables: [
+        {
+          heading: 'Bills',
+          columns,
+          rows: rows.map((row) => [
+            row.title,
+            formatCurrency(row.amount),
+            row.schedule,
+            formatDate(row.next_due),
+            row.status,
+            row.category ?? '-',
+            row.active ? 'Yes' : 'No',
+          ]),
+        },
+      ],
+    });
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -217,15 +406,36 @@ export function Reminders() {
           </p>
         </div>
 
-        <button
-          onClick={() => setShowModal(true)}
-          className="flex items-center gap-2 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
-        >
-          <Plus className="w-5 h-5" />
-          <span>Add Reminder</span>
-        </button>
+        <div className="flex gap-3">
+          <ExportMenu onExport={handleExport} disabled={reminders.length === 0} />
+
+          <button
+            onClick={() => setShowModal(true)}
+            className="flex items-center gap-2 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Add Reminder</span>
+          </button>
+        </div>
       </div>
 
+      {overdueReminders.length > 0 && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-2xl p-6">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-6 h-6 text-red-600 dark:text-red-400 flex-shrink-0" />
+            <div className="flex-1">
+              <h3 className="font-semibold text-red-900 dark:text-red-300 mb-2">
+                Overdue Bills
+              </h3>
+              <p className="text-sm text-red-800 dark:text-red-400">
+                {overdueReminders.map((r) => r.title).join(', ')}{' '}
+                {overdueReminders.length > 1 ? 'are' : 'is'} past due and not marked as paid
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {upcomingReminders.length > 0 && (
         <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-2xl p-6">
           <div className="flex items-start gap-3">
@@ -252,8 +462,10 @@ export function Reminders() {
             </p>
           </div>
         ) : (
-          reminders.map((reminder) => {
-            const status = getStatusBadge(reminder.due_date, reminder.is_active);
+          sortedReminders.map((reminder) => {
+            const period = periods[reminder.id];
+            const status = getStatusBadge(period);
+            const canPay = period.status !== 'paid' && period.status !== 'inactive';
 
             return (
               <div
@@ -312,21 +524,60 @@ export function Reminders() {
                           </div>
                         )}
 
-                        {reminder.is_recurring && (
-                          <span className="text-xs text-slate-500 dark:text-slate-400">
-                            Recurring monthly
-                          </span>
-                        )}
+                        <span className="text-xs text-slate-500 dark:text-slate-400">
+                          {describeBillSchedule(reminder)}
+                        </span>
                       </div>
+
+                      {period.lastPayment && (
+                        <div className="flex items-center gap-3 mt-2 text-sm text-slate-600 dark:text-slate-400">
+                          <span>
+                            Last paid {formatCurrency(period.lastPayment.amount)} for the{' '}
+                            {formatDate(period.lastPayment.due_on, { month: 'short', day: 'numeric' })} bill
+                            {period.lastPayment.is_auto_matched ? ' (matched automatically)' : ''}
+                          </span>
+                          {period.lastPayment.is_auto_matched ? (
+                            <button
+                              onClick={() => period.lastPayment && handleUnlinkPayment(period.lastPayment)}
+                              className="flex items-center gap-1 text-slate-500 hover:text-red-600 dark:hover:text-red-400"
+                              title="Unlink the matched transaction"
+                            >
+                              <Unlink className="w-4 h-4" />
+                              <span>Unlink</span>
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => period.lastPayment && handleUndoPayment(period.lastPayment)}
+                              className="flex items-center gap-1 text-slate-500 hover:text-red-600 dark:hover:text-red-400"
+                              title="Undo payment"
+                            >
+                              <Undo2 className="w-4 h-4" />
+                              <span>Undo</span>
+                            </button>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
 
-                  <button
-                    onClick={() => handleDelete(reminder.id)}
-                    className="text-slate-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
-                  >
-                    <X className="w-5 h-5" />
-                  </button>
+                  <div className="flex items-center gap-3">
+                    {canPay && (
+                      <button
+                        onClick={() => openPayModal(reminder, period.dueOn)}
+                        className="flex items-center gap-2 px-3 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm font-medium transition-colors"
+                      >
+                        <CircleDollarSign className="w-4 h-4" />
+                        <span>Mark paid</span>
+                      </button>
+                    )}
+
+                    <button
+                      onClick={() => handleDelete(reminder.id)}
+                      className="text-slate-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                    >
+                      <X className="w-5 h-5" />
+                    </button>
+                  </div>
                 </div>
               </div>
             );
@@ -334,9 +585,112 @@ export function Reminders() {
         )}
       </div>
 
-      {showModal && (
+      {payingReminder && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 w-full max-w-md shadow-xl">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xl font-bold text-slate-900 dark:text-white">
+                Pay {payingReminder.reminder.title}
+              </h3>
+              <button
+                onClick={() => setPayingReminder(null)}
+                className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">
+              Records an expense for the bill due {formatDate(payingReminder.dueOn)}.
+            </p>
+
+            <form onSubmit={handleMarkPaid} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Amount Paid
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={payForm.amount}
+                  onChange={(e) => setPayForm({ ...payForm, amount: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Payment Date
+                </label>
+                <input
+                  type="date"
+                  value={payForm.date}
+                  onChange={(e) => setPayForm({ ...payForm, date: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Category
+                </label>
+                <select
+                  value={payForm.category_id}
+                  onChange={(e) => setPayForm({ ...payForm, category_id: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  required
+                >
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Paid From
+                </label>
+                <select
+                  value={payForm.account_id}
+                  onChange={(e) => setPayForm({ ...payForm, account_id: e.target.value })}
+                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  required
+                >
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setPayingReminder(null)}
+                  className="flex-1 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2.5 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors"
+                >
+                  Mark Paid
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto shadow-xl">
             <div className="flex items-center justify-between mb-6">
               <h3 className="text-xl font-bold text-slate-900 dark:text-white">
                 Add Bill Reminder
@@ -379,25 +733,6 @@ export function Reminders() {
                 />
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                  Due Date (Day of Month)
-                </label>
-                <select
-                  value={formData.due_date}
-                  onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
-                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
-                  required
-                >
-                  {Array.from({ length: 31 }, (_, i) => i + 1).map((day) => (
-                    <option key={day} value={day}>
-                      {day}
-                      {getDaySuffix(day)}
-                    </option>
-                  ))}
-                </select>
-              </div>
-
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
                   Category (Optional)
@@ -416,23 +751,7 @@ export function Reminders() {
                 </select>
               </div>
 
-              <div className="flex items-center gap-3">
-                <input
-                  type="checkbox"
-                  id="recurring"
-                  checked={formData.is_recurring}
-                  onChange={(e) =>
-                    setFormData({ ...formData, is_recurring: e.target.checked })
-                  }
-                  className="w-4 h-4 text-blue-600 bg-slate-100 border-slate-300 rounded focus:ring-blue-500"
-                />
-                <label
-                  htmlFor="recurring"
-                  className="text-sm font-medium text-slate-700 dark:text-slate-300"
-                >
-                  Recurring monthly
-                </label>
-              </div>
+              <BillScheduleFields value={schedule} onChange={setSchedule} />
 
               <div className="flex gap-3 pt-4">
                 <button
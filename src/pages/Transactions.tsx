@@ -1,7 +1,22 @@
 import { useEffect, useState } from 'react';
-import { Plus, Search, Filter, Trash2, CreditCard as Edit, X } from 'lucide-react';
+import { Plus, Search, Trash2, CreditCard as Edit, X, Upload, ArrowLeftRight, Repeat, Pause, Play } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { ImportWizard } from '../components/transactions/ImportWizard';
+import { RecurrenceFields } from '../components/transactions/RecurrenceFields';
+import { RecurringSeriesModal } from '../components/transactions/RecurringSeriesModal';
+import { ExportMenu } from '../components/export/ExportMenu';
+import { downloadCsv, downloadJson, printStatement, type ExportFormat } from '../lib/export';
+import type { Account } from '../lib/accounts';
+import { currencies } from '../lib/currency';
+import {
+  describeSchedule,
+  emptyRecurrence,
+  firstOccurrenceOnOrAfter,
+  generateRecurringTransactions,
+  type RecurringTransaction,
+} from '../lib/recurring';
 
 interface Category {
   id: string;
@@ -11,40 +26,87 @@ interface Category {
   color: string;
 }
 
+type TransactionType = 'income' | 'expense' | 'transfer';
+
 interface Transaction {
   id: string;
   amount: number;
-  type: 'income' | 'expense';
+  type: TransactionType;
   description: string;
   date: string;
-  category_id: string;
-  category?: Category;
+  category_id: string | null;
+  account_id: string | null;
+  transfer_account_id: string | null;
+  recurring_id: string | null;
+  currency: string;
+  exchange_rate: number;
+  category: Category | null;
 }
 
+const emptyForm = (categoryId = '', accountId = '', currency = 'USD') => ({
+  amount: '',
+  currency,
+  exchange_rate: '1',
+  type: 'expense' as TransactionType,
+  category_id: categoryId,
+  account_id: accountId,
+  transfer_account_id: '',
+  description: '',
+  date: new Date().toISOString().split('T')[0],
+});
+
 export function Transactions() {
   const { user } = useAuth();
+  const { currency: homeCurrency, formatCurrency, formatDate, toHome, rateFor, saveRate } = useCurrency();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
   const [showModal, setShowModal] = useState(false);
-  const [filterType, setFilterType] = useState<'all' | 'income' | 'expense'>('all');
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [recurring, setRecurring] = useState<RecurringTransaction[]>([]);
+  const [showRecurring, setShowRecurring] = useState(false);
+  const [editingSeries, setEditingSeries] = useState<RecurringTransaction | null>(null);
+  const [repeat, setRepeat] = useState(false);
+  const [recurrence, setRecurrence] = useState(emptyRecurrence());
+  const [filterType, setFilterType] = useState<'all' | TransactionType>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(true);
 
-  const [formData, setFormData] = useState({
-    amount: '',
-    type: 'expense' as 'income' | 'expense',
-    category_id: '',
-    description: '',
-    date: new Date().toISOString().split('T')[0],
-  });
+  const [formData, setFormData] = useState(emptyForm());
 
   useEffect(() => {
     if (user) {
       loadCategories();
-      loadTransactions();
+      loadAccounts();
+      refreshRecurring();
     }
   }, [user]);
 
+  // Materializes any occurrences that came due since the last visit before listing transactions
+  const refreshRecurring = async () => {
+    await generateRecurringTransactions();
+    loadRecurring();
+    loadTransactions();
+  };
+
+  const loadRecurring = async () => {
+    if (!user) return;
+
+    const { data } = await supabase
+      .from('recurring_transactions')
+      .select(`
+        *,
+        category:categories (name, color)
+      `)
+      .eq('user_id', user.id)
+      .order('next_date');
+
+    if (data) {
+      setRecurring(data);
+    }
+  };
+
   const loadCategories = async () => {
     if (!user) return;
 
@@ -56,43 +118,28 @@ export function Transactions() {
 
     if (data) {
       setCategories(data);
-      if (data.length > 0 && !formData.category_id) {
-        setFormData((prev) => ({ ...prev, category_id: data[0].id }));
-      }
-    } else {
-      await createDefaultCategories();
+      setFormData((prev) =>
+        prev.category_id
+          ? prev
+          : { ...prev, category_id: data.find((cat) => cat.type === prev.type)?.id ?? '' }
+      );
     }
   };
 
-  const createDefaultCategories = async () => {
+  const loadAccounts = async () => {
     if (!user) return;
 
-    const defaultCategories = [
-      { name: 'Salary', type: 'income', icon: 'briefcase', color: '#10b981' },
-      { name: 'Freelance', type: 'income', icon: 'laptop', color: '#3b82f6' },
-      { name: 'Food', type: 'expense', icon: 'utensils', color: '#f59e0b' },
-      { name: 'Transport', type: 'expense', icon: 'car', color: '#8b5cf6' },
-      { name: 'Shopping', type: 'expense', icon: 'shopping-bag', color: '#ec4899' },
-      { name: 'Entertainment', type: 'expense', icon: 'film', color: '#06b6d4' },
-      { name: 'Bills', type: 'expense', icon: 'file-text', color: '#ef4444' },
-      { name: 'Health', type: 'expense', icon: 'heart', color: '#14b8a6' },
-    ];
-
-    const categoriesToInsert = defaultCategories.map((cat) => ({
-      ...cat,
-      user_id: user.id,
-    }));
-
     const { data } = await supabase
-      .from('categories')
-      .insert(categoriesToInsert)
-      .select();
+      .from('accounts')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at');
 
     if (data) {
-      setCategories(data);
-      if (data.length > 0) {
-        setFormData((prev) => ({ ...prev, category_id: data[0].id }));
-      }
+      setAccounts(data);
+      setFormData((prev) =>
+        prev.account_id ? prev : { ...prev, account_id: data.find((acc) => !acc.is_archived)?.id ?? '' }
+      );
     }
   };
 
@@ -103,44 +150,232 @@ export function Transactions() {
       .from('transactions')
       .select(`
         *,
-        categories (*)
+        category:categories (*)
       `)
       .eq('user_id', user.id)
       .order('date', { ascending: false });
 
     if (data) {
-      setTransactions(data as any);
+      setTransactions(data);
     }
 
     setLoading(false);
   };
 
+  const firstCategoryOfType = (type: TransactionType) =>
+    categories.find((cat) => cat.type === type)?.id ?? '';
+
+  const activeAccounts = accounts.filter((acc) => !acc.is_archived);
+
+  const accountName = (id: string | null) => accounts.find((acc) => acc.id === id)?.name ?? '';
+
+  // Archived accounts stay selectable on transactions that already use them
+  const selectableAccounts = (selectedId: string) =>
+    accounts.filter((acc) => !acc.is_archived || acc.id === selectedId);
+
+  const openAddModal = () => {
+    setEditingTransaction(null);
+    setFormData(emptyForm(firstCategoryOfType('expense'), activeAccounts[0]?.id, homeCurrency));
+    setRepeat(false);
+    setRecurrence(emptyRecurrence());
+    setShowModal(true);
+  };
+
+  const openEditModal = (transaction: Transaction) => {
+    setEditingTransaction(transaction);
+    setFormData({
+      amount: String(transaction.amount),
+      currency: transaction.currency,
+      exchange_rate: String(transaction.exchange_rate),
+      type: transaction.type,
+      category_id: transaction.category_id ?? '',
+      account_id: transaction.account_id ?? '',
+      transfer_account_id: transaction.transfer_account_id ?? '',
+      description: transaction.description,
+      date: transaction.date,
+    });
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingTransaction(null);
+  };
+
+  const handleTypeChange = (type: TransactionType) => {
+    setFormData((prev) => {
+      const categoryMatches = categories.some(
+        (cat) => cat.id === prev.category_id && cat.type === type
+      );
+      const transferAccountId =
+        prev.transfer_account_id && prev.transfer_account_id !== prev.account_id
+          ? prev.transfer_account_id
+          : activeAccounts.find((acc) => acc.id !== prev.account_id)?.id ?? '';
+      return {
+        ...prev,
+        type,
+        category_id: categoryMatches ? prev.category_id : firstCategoryOfType(type),
+        transfer_account_id: type === 'transfer' ? transferAccountId : '',
+      };
+    });
+  };
+
+  const handleCurrencyChange = (currency: string) => {
+    setFormData((prev) => ({ ...prev, currency, exchange_rate: String(rateFor(currency)) }));
+  };
+
+  const sortByDateDesc = (list: Transaction[]) =>
+    [...list].sort((a, b) => b.date.localeCompare(a.date));
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
-    const { error } = await supabase.from('transactions').insert({
-      user_id: user.id,
+    const isTransfer = formData.type === 'transfer';
+    const category =
+      categories.find((cat) => cat.id === formData.category_id && cat.type === formData.type) ?? null;
+
+    if (isTransfer) {
+      if (!formData.account_id || !formData.transfer_account_id) return;
+      if (formData.account_id === formData.transfer_account_id) {
+        alert('Choose two different accounts for a transfer.');
+        return;
+      }
+    } else if (!category) {
+      return;
+    }
+
+    const isForeign = formData.currency !== homeCurrency;
+    const exchangeRate = isForeign ? parseFloat(formData.exchange_rate) : 1;
+    if (!(exchangeRate > 0)) return;
+
+    const values = {
       amount: parseFloat(formData.amount),
+      currency: formData.currency,
+      exchange_rate: exchangeRate,
       type: formData.type,
-      category_id: formData.category_id,
+      category_id: category?.id ?? null,
+      account_id: formData.account_id || null,
+      transfer_account_id: isTransfer ? formData.transfer_account_id : null,
       description: formData.description,
       date: formData.date,
+    };
+
+    if (isForeign) {
+      saveRate(formData.currency, exchangeRate);
+    }
+
+    if (!editingTransaction && repeat && formData.type !== 'transfer') {
+      const count = parseInt(recurrence.count, 10);
+
+      if (recurrence.ends === 'on' && recurrence.end_date < formData.date) {
+        alert('The end date must be on or after the first occurrence.');
+        return;
+      }
+
+      const { error } = await supabase.from('recurring_transactions').insert({
+        user_id: user.id,
+        type: formData.type,
+        amount: values.amount,
+        currency: values.currency,
+        exchange_rate: values.exchange_rate,
+        category_id: formData.category_id,
+        account_id: values.account_id,
+        description: values.description,
+        frequency: recurrence.frequency,
+        start_date: formData.date,
+        end_date: recurrence.ends === 'on' ? recurrence.end_date : null,
+        occurrence_limit: recurrence.ends === 'after' ? count : null,
+        next_date: formData.date,
+      });
+
+      if (error) {
+        alert('Failed to create the recurring transaction. Please try again.');
+      } else {
+        closeModal();
+        refreshRecurring();
+      }
+      return;
+    }
+
+    if (editingTransaction) {
+      const previous = transactions;
+      setTransactions(
+        sortByDateDesc(
+          previous.map((t) =>
+            t.id === editingTransaction.id ? { ...t, ...values, category } : t
+          )
+        )
+      );
+      closeModal();
+
+      const { error } = await supabase
+        .from('transactions')
+        .update(values)
+        .eq('id', editingTransaction.id);
+
+      if (error) {
+        setTransactions(previous);
+        alert('Failed to update transaction. Please try again.');
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('transactions').insert({
+      user_id: user.id,
+      ...values,
     });
 
     if (!error) {
-      setShowModal(false);
-      setFormData({
-        amount: '',
-        type: 'expense',
-        category_id: categories.length > 0 ? categories[0].id : '',
-        description: '',
-        date: new Date().toISOString().split('T')[0],
-      });
+      closeModal();
+      setFormData(emptyForm(firstCategoryOfType('expense'), activeAccounts[0]?.id, homeCurrency));
       loadTransactions();
     }
   };
 
+  const handleTogglePaused = async (series: RecurringTransaction) => {
+    // Resuming skips the occurrences that fell inside the pause instead of back-filling them
+    const next = series.is_paused
+      ? firstOccurrenceOnOrAfter(series, new Date().toISOString().split('T')[0])
+      : null;
+
+    const changes = series.is_paused
+      ? {
+          is_paused: false,
+          next_date: next?.date ?? null,
+          occurrences_generated: next?.n ?? series.occurrences_generated,
+        }
+      : { is_paused: true };
+
+    const { error } = await supabase
+      .from('recurring_transactions')
+      .update(changes)
+      .eq('id', series.id);
+
+    if (!error) {
+      refreshRecurring();
+    }
+  };
+
+  const handleDeleteSeries = async (series: RecurringTransaction) => {
+    if (!confirm('Stop this recurring transaction? Transactions already created will be kept.')) return;
+
+    const { error } = await supabase.from('recurring_transactions').delete().eq('id', series.id);
+
+    if (!error) {
+      loadRecurring();
+      loadTransactions();
+    }
+  };
+
+  const openSeriesFromTransaction = (transaction: Transaction) => {
+    const series = recurring.find((item) => item.id === transaction.recurring_id);
+    if (!series) return;
+
+    closeModal();
+    setEditingSeries(series);
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to delete this transaction?')) return;
 
@@ -151,26 +386,107 @@ export function Transactions() {
     }
   };
 
+  const accountLabel = (transaction: Transaction) =>
+    transaction.type === 'transfer'
+      ? `${accountName(transaction.account_id)} → ${accountName(transaction.transfer_account_id)}`
+      : accountName(transaction.account_id);
+
   const filteredTransactions = transactions.filter((transaction) => {
+    const term = searchTerm.toLowerCase();
     const matchesType = filterType === 'all' || transaction.type === filterType;
     const matchesSearch =
-      transaction.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      transaction.category?.name.toLowerCase().includes(searchTerm.toLowerCase());
+      transaction.description.toLowerCase().includes(term) ||
+      transaction.category?.name.toLowerCase().includes(term) ||
+      accountLabel(transaction).toLowerCase().includes(term);
     return matchesType && matchesSearch;
   });
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
-  };
+  const categoryLabel = (transaction: Transaction) =>
+    transaction.type === 'transfer' ? 'Transfer' : transaction.category?.name ?? '';
+
+  const signedAmount = (transaction: Transaction) =>
+    transaction.type === 'expense' ? -Number(transaction.amount) : Number(transaction.amount);
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric',
+  const amountPrefix = (transaction: Transaction) =>
+    transaction.type === 'income' ? '+' : transaction.type === 'expense' ? '-' : '';
+
+  const handleExport = (format: ExportFormat) => {
+    if (format === 'json') {
+      downloadJson(
+        'transactions',
+        filteredTransactions.map((t) => ({
+          id: t.id,
+          date: t.date,
+          type: t.type,
+          amount: Number(t.amount),
+          currency: t.currency,
+          exchange_rate: Number(t.exchange_rate),
+          home_amount: toHome(t),
+          category: t.category?.name ?? null,
+          account: accountName(t.account_id) || null,
+          transfer_account: t.type === 'transfer' ? accountName(t.transfer_account_id) : null,
+          description: t.description,
+        }))
+      );
+      return;
+    }
+
+    const columns = ['Date', 'Category', 'Account', 'Description', 'Type', 'Amount'];
+
+    if (format === 'csv') {
+      downloadCsv('transactions', {
+        columns: [...columns, 'Currency', `Amount (${homeCurrency})`],
+        rows: filteredTransactions.map((t) => [
+          t.date,
+          categoryLabel(t),
+          accountLabel(t),
+          t.description,
+          t.type,
+          signedAmount(t),
+          t.currency,
+          signedAmount(t) * Number(t.exchange_rate),
+        ]),
+      });
+      return;
+    }
+
+    const income = filteredTransactions
+      .filter((t) => t.type === 'income')
+      .reduce((sum, t) => sum + toHome(t), 0);
+    const expenses = filteredTransactions
+      .filter((t) => t.type === 'expense')
+      .reduce((sum, t) => sum + toHome(t), 0);
+    const dates = filteredTransactions.map((t) => t.date).sort();
+    const filters = [
+      { all: '', income: 'Income only', expense: 'Expenses only', transfer: 'Transfers only' }[filterType],
+      searchTerm ? `matching "${searchTerm}"` : '',
+    ].filter(Boolean);
+
+    printStatement({
+      title: 'Transaction Statement',
+      period: [
+        dates.length > 0 ? `${formatDate(dates[0])} – ${formatDate(dates[dates.length - 1])}` : 'No transactions',
+        ...filters,
+      ].join(' · '),
+      summary: [
+        ['Income', formatCurrency(income)],
+        ['Expenses', formatCurrency(expenses)],
+        ['Net', formatCurrency(income - expenses)],
+      ],
+      tables: [
+        {
+          heading: 'Transactions',
+          columns,
+          rows: filteredTransactions.map((t) => [
+            formatDate(t.date),
+            categoryLabel(t),
+            accountLabel(t),
+            t.description,
+            t.type,
+            `${amountPrefix(t)}${formatCurrency(t.amount, t.currency)}`,
+          ]),
+        },
+      ],
     });
   };
 
@@ -230,10 +546,42 @@ export function Transactions() {
             >
               Expenses
             </button>
+            <button
+              onClick={() => setFilterType('transfer')}
+              className={`px-4 py-2 rounded text-sm font-medium transition-colors ${
+                filterType === 'transfer'
+                  ? 'bg-blue-600 text-white'
+                  : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'
+              }`}
+            >
+              Transfers
+            </button>
           </div>
 
           <button
-            onClick={() => setShowModal(true)}
+            onClick={() => setShowRecurring(!showRecurring)}
+            className={`flex items-center gap-2 px-4 py-2.5 border rounded-lg font-medium transition-colors ${
+              showRecurring
+                ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-300'
+                : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'
+            }`}
+          >
+            <Repeat className="w-5 h-5" />
+            <span>Recurring</span>
+          </button>
+
+          <ExportMenu onExport={handleExport} disabled={filteredTransactions.length === 0} />
+
+          <button
+            onClick={() => setShowImport(true)}
+            className="flex items-center gap-2 px-4 py-2.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-lg font-medium transition-colors"
+          >
+            <Upload className="w-5 h-5" />
+            <span>Import</span>
+          </button>
+
+          <button
+            onClick={openAddModal}
             className="flex items-center gap-2 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
           >
             <Plus className="w-5 h-5" />
@@ -242,6 +590,80 @@ export function Transactions() {
         </div>
       </div>
 
+      {showRecurring && (
+        <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Recurring Transactions</h3>
+          </div>
+          {recurring.length === 0 ? (
+            <p className="px-6 py-8 text-center text-slate-500 dark:text-slate-400">
+              No recurring transactions. Choose a repeat schedule when adding a transaction.
+            </p>
+          ) : (
+            <div className="divide-y divide-slate-200 dark:divide-slate-700">
+              {recurring.map((series) => (
+                <div key={series.id} className="flex items-center gap-4 px-6 py-4">
+                  <div
+                    className="p-2 rounded-lg"
+                    style={{ backgroundColor: `${series.category?.color}20` }}
+                  >
+                    <Repeat className="w-4 h-4" style={{ color: series.category?.color }} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-slate-900 dark:text-white truncate">
+                      {series.description || series.category?.name}
+                    </p>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">
+                      {describeSchedule(series)} ·{' '}
+                      {series.is_paused
+                        ? 'Paused'
+                        : series.next_date
+                        ? `Next on ${formatDate(series.next_date)}`
+                        : 'Ended'}
+                    </p>
+                  </div>
+                  <span
+                    className={`text-sm font-semibold ${
+                      series.type === 'income'
+                        ? 'text-green-600 dark:text-green-400'
+                        : 'text-red-600 dark:text-red-400'
+                    }`}
+                  >
+                    {series.type === 'income' ? '+' : '-'}
+                    {formatCurrency(series.amount, series.currency)}
+                  </span>
+                  <div className="flex items-center gap-3">
+                    {(series.next_date || series.is_paused) && (
+                      <button
+                        onClick={() => handleTogglePaused(series)}
+                        className="text-slate-500 hover:text-amber-600 dark:text-slate-400 dark:hover:text-amber-400"
+                        title={series.is_paused ? 'Resume series' : 'Pause series'}
+                      >
+                        {series.is_paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setEditingSeries(series)}
+                      className="text-slate-500 hover:text-blue-600 dark:text-slate-400 dark:hover:text-blue-400"
+                      title="Edit series"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteSeries(series)}
+                      className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                      title="Delete series"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full">
@@ -253,6 +675,9 @@ export function Transactions() {
                 <th className="px-6 py-4 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
                   Category
                 </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
+                  Account
+                </th>
                 <th className="px-6 py-4 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
                   Description
                 </th>
@@ -270,7 +695,7 @@ export function Transactions() {
             <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
               {filteredTransactions.length === 0 ? (
                 <tr>
-                  <td colSpan={6} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+                  <td colSpan={7} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
                     No transactions found. Add your first transaction to get started!
                   </td>
                 </tr>
@@ -284,30 +709,51 @@ export function Transactions() {
                       {formatDate(transaction.date)}
                     </td>
                     <td className="px-6 py-4">
-                      <div className="flex items-center gap-3">
-                        <div
-                          className="p-2 rounded-lg"
-                          style={{ backgroundColor: `${transaction.category?.color}20` }}
-                        >
+                      {transaction.type === 'transfer' ? (
+                        <div className="flex items-center gap-3">
+                          <div className="p-2 rounded-lg bg-blue-100 dark:bg-blue-900/30">
+                            <ArrowLeftRight className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+                          </div>
+                          <span className="text-sm font-medium text-slate-900 dark:text-white">Transfer</span>
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-3">
                           <div
-                            className="w-4 h-4"
-                            style={{ color: transaction.category?.color }}
-                          />
+                            className="p-2 rounded-lg"
+                            style={{ backgroundColor: `${transaction.category?.color}20` }}
+                          >
+                            <div
+                              className="w-4 h-4"
+                              style={{ color: transaction.category?.color }}
+                            />
+                          </div>
+                          <span className="text-sm font-medium text-slate-900 dark:text-white">
+                            {transaction.category?.name}
+                          </span>
                         </div>
-                        <span className="text-sm font-medium text-slate-900 dark:text-white">
-                          {transaction.category?.name}
-                        </span>
-                      </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">
-                      {transaction.description || '-'}
+                      {accountLabel(transaction) || '-'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">
+                      <div className="flex items-center gap-2">
+                        {transaction.recurring_id && (
+                          <span title="Recurring">
+                            <Repeat className="w-3.5 h-3.5 text-slate-400" />
+                          </span>
+                        )}
+                        <span>{transaction.description || '-'}</span>
+                      </div>
                     </td>
                     <td className="px-6 py-4">
                       <span
                         className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                           transaction.type === 'income'
                             ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400'
-                            : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400'
+                            : transaction.type === 'expense'
+                            ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400'
+                            : 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400'
                         }`}
                       >
                         {transaction.type}
@@ -318,20 +764,37 @@ export function Transactions() {
                         className={`text-sm font-semibold ${
                           transaction.type === 'income'
                             ? 'text-green-600 dark:text-green-400'
-                            : 'text-red-600 dark:text-red-400'
+                            : transaction.type === 'expense'
+                            ? 'text-red-600 dark:text-red-400'
+                            : 'text-slate-900 dark:text-white'
                         }`}
                       >
-                        {transaction.type === 'income' ? '+' : '-'}
-                        {formatCurrency(transaction.amount)}
+                        {amountPrefix(transaction)}
+                        {formatCurrency(transaction.amount, transaction.currency)}
                       </span>
+                      {transaction.currency !== homeCurrency && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          ≈ {formatCurrency(toHome(transaction))}
+                        </p>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-right">
-                      <button
-                        onClick={() => handleDelete(transaction.id)}
-                        className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
+                      <div className="flex items-center justify-end gap-3">
+                        <button
+                          onClick={() => openEditModal(transaction)}
+                          className="text-slate-500 hover:text-blue-600 dark:text-slate-400 dark:hover:text-blue-400"
+                          title="Edit transaction"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(transaction.id)}
+                          className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                          title="Delete transaction"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
                     </td>
                   </tr>
                 ))
@@ -343,17 +806,34 @@ export function Transactions() {
 
       {showModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 w-full max-w-md shadow-xl">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto shadow-xl">
             <div className="flex items-center justify-between mb-6">
-              <h3 className="text-xl font-bold text-slate-900 dark:text-white">Add Transaction</h3>
+              <h3 className="text-xl font-bold text-slate-900 dark:text-white">
+                {editingTransaction ? 'Edit Transaction' : 'Add Transaction'}
+              </h3>
               <button
-                onClick={() => setShowModal(false)}
+                onClick={closeModal}
                 className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
               >
                 <X className="w-6 h-6" />
               </button>
             </div>
 
+            {editingTransaction?.recurring_id && (
+              <div className="mb-4 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg text-sm text-blue-700 dark:text-blue-300">
+                <p>This transaction is part of a recurring series. Changes here only affect this occurrence.</p>
+                {recurring.some((series) => series.id === editingTransaction.recurring_id) && (
+                  <button
+                    type="button"
+                    onClick={() => openSeriesFromTransaction(editingTransaction)}
+                    className="mt-2 font-medium underline hover:no-underline"
+                  >
+                    Edit the whole series instead
+                  </button>
+                )}
+              </div>
+            )}
+
             <form onSubmit={handleSubmit} className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
@@ -362,7 +842,7 @@ export function Transactions() {
                 <div className="flex gap-2">
                   <button
                     type="button"
-                    onClick={() => setFormData({ ...formData, type: 'income' })}
+                    onClick={() => handleTypeChange('income')}
                     className={`flex-1 py-2.5 rounded-lg font-medium transition-colors ${
                       formData.type === 'income'
                         ? 'bg-green-600 text-white'
@@ -373,7 +853,7 @@ export function Transactions() {
                   </button>
                   <button
                     type="button"
-                    onClick={() => setFormData({ ...formData, type: 'expense' })}
+                    onClick={() => handleTypeChange('expense')}
                     className={`flex-1 py-2.5 rounded-lg font-medium transition-colors ${
                       formData.type === 'expense'
                         ? 'bg-red-600 text-white'
@@ -382,6 +862,18 @@ export function Transactions() {
                   >
                     Expense
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => handleTypeChange('transfer')}
+                    disabled={activeAccounts.length < 2 && formData.type !== 'transfer'}
+                    className={`flex-1 py-2.5 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      formData.type === 'transfer'
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300'
+                    }`}
+                  >
+                    Transfer
+                  </button>
                 </div>
               </div>
 
@@ -389,37 +881,122 @@ export function Transactions() {
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
                   Amount
                 </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={formData.amount}
-                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                  className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
-                  placeholder="0.00"
-                  required
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={formData.amount}
+                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    className="flex-1 min-w-0 px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                    placeholder="0.00"
+                    required
+                  />
+                  <select
+                    value={formData.currency}
+                    onChange={(e) => handleCurrencyChange(e.target.value)}
+                    className="px-3 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                  >
+                    {currencies.map(({ code }) => (
+                      <option key={code} value={code}>
+                        {code}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
+              {formData.currency !== homeCurrency && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Exchange Rate (1 {formData.currency} in {homeCurrency})
+                  </label>
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={formData.exchange_rate}
+                    onChange={(e) => setFormData({ ...formData, exchange_rate: e.target.value })}
+                    className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                    required
+                  />
+                  {formData.amount && parseFloat(formData.exchange_rate) > 0 && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                      ≈ {formatCurrency(parseFloat(formData.amount) * parseFloat(formData.exchange_rate))}
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                  Category
+                  {formData.type === 'transfer' ? 'From Account' : 'Account'}
                 </label>
                 <select
-                  value={formData.category_id}
-                  onChange={(e) => setFormData({ ...formData, category_id: e.target.value })}
+                  value={formData.account_id}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      account_id: e.target.value,
+                      // Picking the destination as the source swaps the two
+                      transfer_account_id:
+                        formData.transfer_account_id === e.target.value
+                          ? formData.account_id
+                          : formData.transfer_account_id,
+                    })
+                  }
                   className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
                   required
                 >
-                  {categories
-                    .filter((cat) => cat.type === formData.type)
-                    .map((category) => (
-                      <option key={category.id} value={category.id}>
-                        {category.name}
-                      </option>
-                    ))}
+                  {selectableAccounts(formData.account_id).map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.name}
+                    </option>
+                  ))}
                 </select>
               </div>
 
+              {formData.type === 'transfer' ? (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    To Account
+                  </label>
+                  <select
+                    value={formData.transfer_account_id}
+                    onChange={(e) => setFormData({ ...formData, transfer_account_id: e.target.value })}
+                    className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                    required
+                  >
+                    {selectableAccounts(formData.transfer_account_id)
+                      .filter((account) => account.id !== formData.account_id)
+                      .map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Category
+                  </label>
+                  <select
+                    value={formData.category_id}
+                    onChange={(e) => setFormData({ ...formData, category_id: e.target.value })}
+                    className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-slate-900 dark:text-white"
+                    required
+                  >
+                    {categories
+                      .filter((cat) => cat.type === formData.type)
+                      .map((category) => (
+                        <option key={category.id} value={category.id}>
+                          {category.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
                   Description
@@ -435,7 +1012,7 @@ export function Transactions() {
 
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                  Date
+                  {repeat && !editingTransaction && formData.type !== 'transfer' ? 'First Occurrence' : 'Date'}
                 </label>
                 <input
                   type="date"
@@ -446,10 +1023,26 @@ export function Transactions() {
                 />
               </div>
 
+              {!editingTransaction && formData.type !== 'transfer' && (
+                <div className="space-y-4">
+                  <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={repeat}
+                      onChange={(e) => setRepeat(e.target.checked)}
+                      className="w-4 h-4 text-blue-600 bg-slate-100 border-slate-300 rounded focus:ring-blue-500"
+                    />
+                    Repeat this transaction
+                  </label>
+
+                  {repeat && <RecurrenceFields value={recurrence} onChange={setRecurrence} />}
+                </div>
+              )}
+
               <div className="flex gap-3 pt-4">
                 <button
                   type="button"
-                  onClick={() => setShowModal(false)}
+                  onClick={closeModal}
                   className="flex-1 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
                 >
                   Cancel
@@ -458,13 +1051,35 @@ export function Transactions() {
                   type="submit"
                   className="flex-1 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
                 >
-                  Add Transaction
+                  {editingTransaction ? 'Save Changes' : 'Add Transaction'}
                 </button>
               </div>
             </form>
           </div>
         </div>
       )}
+
+      {editingSeries && (
+        <RecurringSeriesModal
+          series={editingSeries}
+          categories={categories}
+          accounts={accounts}
+          onClose={() => setEditingSeries(null)}
+          onSaved={() => {
+            setEditingSeries(null);
+            refreshRecurring();
+          }}
+        />
+      )}
+
+      {showImport && (
+        <ImportWizard
+          categories={categories}
+          accounts={activeAccounts}
+          onClose={() => setShowImport(false)}
+          onImported={loadTransactions}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,145 @@
+// Date arithmetic for recurring transactions and bill due dates. It has no imports so both the app
+// (src/lib/recurring.ts, src/lib/bills.ts) and the edge functions can use this one copy.
+
+export type Frequency = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+
+export type BillFrequency = 'once' | 'weekly' | 'monthly' | 'yearly';
+
+export type WeekendShift = 'none' | 'before' | 'after';
+
+export interface BillSchedule {
+  frequency: BillFrequency;
+  interval_count: number;
+  anchor_date: string;
+  end_of_month: boolean;
+  weekend_shift: WeekendShift;
+}
+
+export interface ScheduledBill extends BillSchedule {
+  id: string;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface DuePayment {
+  reminder_id: string;
+  due_on: string;
+}
+
+export type BillStatus = 'paid' | 'overdue' | 'due-today' | 'upcoming' | 'inactive';
+
+export interface BillPeriod<P extends DuePayment = DuePayment> {
+  dueOn: string;
+  daysUntil: number;
+  status: BillStatus;
+  payment: P | null;
+  lastPayment: P | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toIsoDate = (date: Date) => date.toISOString().split('T')[0];
+
+export const todayIso = () => toIsoDate(new Date());
+
+export function daysBetween(from: string, to: string) {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+export const addDays = (date: string, days: number) =>
+  toIsoDate(new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS));
+
+const addMonthsClamped = (start: Date, months: number) => {
+  const target = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+  return target;
+};
+
+// Mirrors recurring_occurrence_date() in the database: occurrences are counted from the start date
+// so monthly series anchored on the 31st return to the 31st after a short month
+export function occurrenceDate(startDate: string, frequency: Frequency, n: number) {
+  const start = new Date(`${startDate}T00:00:00Z`);
+  const days = { daily: 1, weekly: 7, biweekly: 14 } as const;
+
+  if (frequency === 'monthly') return toIsoDate(addMonthsClamped(start, n));
+  if (frequency === 'yearly') return toIsoDate(addMonthsClamped(start, n * 12));
+
+  start.setUTCDate(start.getUTCDate() + days[frequency] * n);
+  return toIsoDate(start);
+}
+
+const lastDayOfMonth = (date: string) => {
+  const [year, month] = date.split('-').map(Number);
+  return toIsoDate(new Date(Date.UTC(year, month, 0)));
+};
+
+const shiftOffWeekend = (date: string, shift: WeekendShift) => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  if (shift === 'none' || (weekday !== 0 && weekday !== 6)) return date;
+
+  if (shift === 'before') return addDays(date, weekday === 6 ? -1 : -2);
+  return addDays(date, weekday === 6 ? 2 : 1);
+};
+
+// Due date of the nth period. Periods are counted from the anchor rather than from the previous
+// due date, so a bill anchored on the 31st returns to the 31st after a short month.
+export function billDueDate(schedule: BillSchedule, n: number) {
+  if (schedule.frequency === 'once') {
+    return shiftOffWeekend(schedule.anchor_date, schedule.weekend_shift);
+  }
+
+  let date = occurrenceDate(schedule.anchor_date, schedule.frequency, n * schedule.interval_count);
+  if (schedule.end_of_month && schedule.frequency !== 'weekly') {
+    date = lastDayOfMonth(date);
+  }
+
+  return shiftOffWeekend(date, schedule.weekend_shift);
+}
+
+// The latest due date on or before `date`, and the first one after it (null once a one-time bill is past)
+export function dueDatesAround(schedule: BillSchedule, date: string) {
+  let previous: string | null = null;
+  let next: string | null = billDueDate(schedule, 0);
+
+  for (let n = 1; next !== null && next <= date; n += 1) {
+    previous = next;
+    next = schedule.frequency === 'once' ? null : billDueDate(schedule, n);
+  }
+
+  return { previous, next };
+}
+
+export function getBillPeriod<P extends DuePayment>(
+  reminder: ScheduledBill,
+  payments: P[],
+  today = todayIso()
+): BillPeriod<P> {
+  const ownPayments = payments
+    .filter((payment) => payment.reminder_id === reminder.id)
+    .sort((a, b) => b.due_on.localeCompare(a.due_on));
+  const paymentFor = (dueOn: string) => ownPayments.find((payment) => payment.due_on === dueOn) ?? null;
+  const createdOn = reminder.created_at.split('T')[0];
+
+  let dueOn: string;
+
+  if (reminder.frequency === 'once') {
+    dueOn = billDueDate(reminder, 0);
+  } else {
+    // The latest due date stays current until it is paid; periods before the bill existed don't count
+    const { previous, next } = dueDatesAround(reminder, today);
+    dueOn = previous && previous >= createdOn && !paymentFor(previous) ? previous : (next ?? today);
+  }
+
+  const payment = paymentFor(dueOn);
+  const daysUntil = daysBetween(today, dueOn);
+
+  let status: BillStatus;
+  if (!reminder.is_active) status = 'inactive';
+  else if (payment) status = 'paid';
+  else if (daysUntil < 0) status = 'overdue';
+  else if (daysUntil === 0) status = 'due-today';
+  else status = 'upcoming';
+
+  return { dueOn, daysUntil, status, payment, lastPayment: ownPayments[0] ?? null };
+}
@@ -0,0 +1,81 @@
+import type { MailMessage } from './mail.ts';
+
+export interface DigestBill {
+  title: string;
+  amount: number;
+  dueOn: string;
+  overdue: boolean;
+}
+
+// One budget in the period containing the digest's day; `budget` includes any carried-over money
+export interface DigestBudget {
+  category: string;
+  budget: number;
+  spent: number;
+}
+
+export interface DigestData {
+  to: string;
+  name: string;
+  currency: string;
+  locale: string;
+  bills: DigestBill[];
+  budgets: DigestBudget[];
+  weekSpending: number;
+  topCategories: { category: string; spent: number }[];
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function composeDigest(data: DigestData): MailMessage {
+  const money = (amount: number) =>
+    new Intl.NumberFormat(data.locale, { style: 'currency', currency: data.currency }).format(amount);
+  const day = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString(data.locale, { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+  const billLines = data.bills.map(
+    (bill) => `${bill.title}: ${money(bill.amount)} ${bill.overdue ? 'was due' : 'due'} ${day(bill.dueOn)}`
+  );
+  const budgetLines = data.budgets.map((budget) => {
+    const percentage = budget.budget > 0 ? Math.round((budget.spent / budget.budget) * 100) : 0;
+    return `${budget.category}: ${money(budget.spent)} of ${money(budget.budget)} (${percentage}%)`;
+  });
+  const spendingLines = data.topCategories.map(({ category, spent }) => `${category}: ${money(spent)}`);
+
+  const sections: [string, string[], string][] = [
+    ['Upcoming bills', billLines, 'No bills due in the next 7 days.'],
+    ['Budgets', budgetLines, 'No budgets set for this month.'],
+    [`This week's spending: ${money(data.weekSpending)}`, spendingLines, 'No spending recorded this week.'],
+  ];
+
+  const text = [
+    `Hi ${data.name || 'there'},`,
+    '',
+    ...sections.flatMap(([heading, lines, empty]) => [
+      heading,
+      ...(lines.length > 0 ? lines.map((line) => `- ${line}`) : [empty]),
+      '',
+    ]),
+  ].join('\n');
+
+  const html = [
+    `<p>Hi ${escapeHtml(data.name || 'there')},</p>`,
+    ...sections.map(
+      ([heading, lines, empty]) =>
+        `<h3>${escapeHtml(heading)}</h3>` +
+        (lines.length > 0
+          ? `<ul>${lines.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`
+          : `<p>${escapeHtml(empty)}</p>`)
+    ),
+  ].join('\n');
+
+  const overdue = data.bills.filter((bill) => bill.overdue).length;
+
+  return {
+    to: data.to,
+    subject: overdue > 0 ? `Your weekly finance digest: ${overdue} overdue bill${overdue === 1 ? '' : 's'}` : 'Your weekly finance digest',
+    text,
+    html,
+  };
+}
@@ -0,0 +1,341 @@
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { addDays, getBillPeriod, toIsoDate, type DuePayment, type ScheduledBill } from '../_shared/schedule.ts';
+import { composeDigest, type DigestBill } from './digest.ts';
+import { createMailTransport, type MailTransport } from './mail.ts';
+import { configurePush, sendPush, type PushSubscriptionRow } from './push.ts';
+
+interface Profile {
+  id: string;
+  full_name: string;
+  currency: string;
+  locale: string;
+  push_enabled: boolean;
+  email_digest_enabled: boolean;
+  digest_day: number;
+  last_digest_sent_at: string | null;
+}
+
+interface BillReminder extends ScheduledBill {
+  title: string;
+  amount: number;
+}
+
+interface Expense {
+  date: string;
+  amount: number;
+  exchange_rate: number;
+  category: { name: string } | null;
+}
+
+interface Budget {
+  id: string;
+  category_id: string;
+  period: string;
+  amount: number;
+  category: { name: string } | null;
+}
+
+interface Notification {
+  id: string;
+  kind: 'bill_due' | 'bill_overdue' | 'budget_exceeded' | 'budget_threshold' | 'large_transaction';
+  title: string;
+  amount: number | null;
+  event_date: string | null;
+  link: string;
+}
+
+// Matches the notice period and source keys used by syncNotifications() in src/lib/notifications.ts,
+// so a notification created here and one created by the app are the same row. Budget alerts are
+// recorded by the database as transactions are saved and only need pushing.
+const BILL_DUE_NOTICE_DAYS = 3;
+
+// Only notifications this recent are pushed; older unread ones were already visible in the app
+const PUSH_WINDOW_HOURS = 24;
+
+const DIGEST_INTERVAL_MS = 6 * 24 * 60 * 60 * 1000;
+
+const toHome = (expense: Expense) => Number(expense.amount) * Number(expense.exchange_rate ?? 1);
+
+// Budgets that apply to the current month with their spending in the period containing today,
+// picked the same way as loadBudgetsForMonth() in src/lib/budgets.ts and summed by budget_spending()
+async function loadBudgets(admin: SupabaseClient, userId: string, today: string) {
+  const [year, month] = today.split('-').map(Number);
+  const firstDay = `${today.slice(0, 7)}-01`;
+  const lastDay = toIsoDate(new Date(Date.UTC(year, month, 0)));
+
+  const { data: budgetData } = await admin
+    .from('budgets')
+    .select('id, category_id, period, amount, category:categories (name)')
+    .eq('user_id', userId)
+    .or(
+      [
+        `and(period.eq.monthly,month.eq.${month},year.eq.${year})`,
+        `and(period.in.(weekly,quarterly,yearly),start_date.lte.${lastDay})`,
+        `and(period.eq.custom,start_date.lte.${lastDay},end_date.gte.${firstDay})`,
+      ].join(',')
+    )
+    .order('start_date');
+
+  // A repeating budget is replaced by a newer one for the same category and period
+  const latest: Record<string, Budget> = {};
+  ((budgetData ?? []) as unknown as Budget[]).forEach((budget) => {
+    latest[`${budget.category_id}:${budget.period}:${budget.period === 'custom' ? budget.id : ''}`] = budget;
+  });
+  const budgets = Object.values(latest);
+  if (budgets.length === 0) return [];
+
+  const { data: spending, error } = await admin.rpc('budget_spending', {
+    budget_ids: budgets.map((budget) => budget.id),
+    reference: today,
+  });
+  if (error) throw new Error(`budget_spending: ${error.message}`);
+
+  const spendingById = Object.fromEntries(
+    ((spending ?? []) as { budget_id: string; spent: number; carried_over: number }[]).map((row) => [row.budget_id, row])
+  );
+
+  return budgets.map((budget) => ({
+    id: budget.id,
+    category: budget.category?.name ?? 'Budget',
+    budget: Number(budget.amount) + Number(spendingById[budget.id]?.carried_over ?? 0),
+    spent: Number(spendingById[budget.id]?.spent ?? 0),
+  }));
+}
+
+async function loadUserData(admin: SupabaseClient, userId: string, today: string) {
+  const weekStart = addDays(today, -6);
+
+  const [reminders, payments, budgets, expenses] = await Promise.all([
+    admin.from('bill_reminders').select('*').eq('user_id', userId).eq('is_active', true),
+    admin.from('bill_payments').select('reminder_id, due_on').eq('user_id', userId),
+    loadBudgets(admin, userId, today),
+    admin
+      .from('transactions')
+      .select('date, amount, exchange_rate, category:categories (name)')
+      .eq('user_id', userId)
+      .eq('type', 'expense')
+      .gte('date', weekStart)
+      .lte('date', today),
+  ]);
+
+  return {
+    bills: ((reminders.data ?? []) as BillReminder[]).map((reminder) => ({
+      reminder,
+      period: getBillPeriod(reminder, (payments.data ?? []) as DuePayment[], today),
+    })),
+    budgets,
+    weekExpenses: (expenses.data ?? []) as unknown as Expense[],
+  };
+}
+
+type UserData = Awaited<ReturnType<typeof loadUserData>>;
+
+async function recordNotifications(admin: SupabaseClient, userId: string, data: UserData) {
+  const drafts = data.bills.flatMap(({ reminder, period }) => {
+    if (period.status === 'paid' || (period.status !== 'overdue' && period.daysUntil > BILL_DUE_NOTICE_DAYS)) {
+      return [];
+    }
+
+    const kind = period.status === 'overdue' ? 'bill_overdue' : 'bill_due';
+    return [
+      {
+        kind,
+        title: reminder.title,
+        amount: Number(reminder.amount),
+        event_date: period.dueOn,
+        link: 'reminders',
+        source_key: `${kind}:${reminder.id}:${period.dueOn}`,
+      },
+    ];
+  });
+
+  if (drafts.length === 0) return;
+
+  await admin.from('notifications').upsert(
+    drafts.map((draft) => ({ ...draft, user_id: userId })),
+    { onConflict: 'user_id,source_key', ignoreDuplicates: true }
+  );
+}
+
+function pushMessage(notification: Notification, money: (amount: number) => string) {
+  const amount = notification.amount !== null ? money(notification.amount) : '';
+
+  switch (notification.kind) {
+    case 'bill_due':
+      return { title: `${notification.title} is due soon`, body: `${amount} due ${notification.event_date}` };
+    case 'bill_overdue':
+      return { title: `${notification.title} is overdue`, body: `${amount} was due ${notification.event_date}` };
+    case 'budget_exceeded':
+      return { title: `${notification.title} budget exceeded`, body: `${amount} spent this month` };
+    case 'budget_threshold':
+      return { title: `Budget alert: ${notification.title}`, body: `${amount} spent as of ${notification.event_date}` };
+    case 'large_transaction':
+      return { title: `Large transaction: ${notification.title}`, body: `${amount} on ${notification.event_date}` };
+  }
+}
+
+async function pushPending(admin: SupabaseClient, profile: Profile) {
+  const now = new Date();
+  const since = new Date(now.getTime() - PUSH_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+
+  const [{ data: notifications }, { data: subscriptions }] = await Promise.all([
+    admin
+      .from('notifications')
+      .select('id, kind, title, amount, event_date, link')
+      .eq('user_id', profile.id)
+      .is('pushed_at', null)
+      .is('read_at', null)
+      .is('dismissed_at', null)
+      .or(`snoozed_until.is.null,snoozed_until.lte.${now.toISOString()}`)
+      .gte('created_at', since),
+    admin.from('push_subscriptions').select('id, endpoint, p256dh, auth').eq('user_id', profile.id),
+  ]);
+
+  if (!notifications?.length || !subscriptions?.length) return { pushed: 0, errors: [] };
+
+  const money = (amount: number) =>
+    new Intl.NumberFormat(profile.locale, { style: 'currency', currency: profile.currency }).format(amount);
+  const gone = new Set<string>();
+  // Notifications that reached at least one device; the rest stay pending for the next run
+  const pushed = new Set<string>();
+  const errors: string[] = [];
+
+  for (const notification of notifications as Notification[]) {
+    const message = pushMessage(notification, money);
+
+    for (const subscription of subscriptions as PushSubscriptionRow[]) {
+      if (gone.has(subscription.id)) continue;
+
+      try {
+        const delivered = await sendPush(subscription, { ...message, link: notification.link, tag: notification.id });
+        if (delivered) {
+          pushed.add(notification.id);
+        } else {
+          gone.add(subscription.id);
+        }
+      } catch (err) {
+        errors.push(`push ${subscription.id}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+
+  if (pushed.size > 0) {
+    await admin
+      .from('notifications')
+      .update({ pushed_at: now.toISOString() })
+      .in('id', [...pushed]);
+  }
+
+  if (gone.size > 0) {
+    await admin.from('push_subscriptions').delete().in('id', [...gone]);
+  }
+
+  return { pushed: pushed.size, errors };
+}
+
+const isDigestDue = (profile: Profile, now: Date) =>
+  now.getUTCDay() === profile.digest_day &&
+  (profile.last_digest_sent_at === null || now.getTime() - Date.parse(profile.last_digest_sent_at) >= DIGEST_INTERVAL_MS);
+
+async function sendDigest(
+  admin: SupabaseClient,
+  mail: MailTransport,
+  profile: Profile,
+  data: UserData,
+  today: string
+) {
+  const { data: account } = await admin.auth.admin.getUserById(profile.id);
+  const email = account.user?.email;
+  if (!email) return false;
+
+  const bills: DigestBill[] = data.bills
+    .filter(({ period }) => period.status === 'overdue' || (period.status !== 'paid' && period.dueOn <= addDays(today, 7)))
+    .map(({ reminder, period }) => ({
+      title: reminder.title,
+      amount: Number(reminder.amount),
+      dueOn: period.dueOn,
+      overdue: period.status === 'overdue',
+    }))
+    .sort((a, b) => a.dueOn.localeCompare(b.dueOn));
+
+  const byCategory: Record<string, number> = {};
+  data.weekExpenses.forEach((expense) => {
+    const name = expense.category?.name ?? 'Uncategorized';
+    byCategory[name] = (byCategory[name] || 0) + toHome(expense);
+  });
+
+  await mail.send(
+    composeDigest({
+      to: email,
+      name: profile.full_name,
+      currency: profile.currency,
+      locale: profile.locale,
+      bills,
+      budgets: data.budgets,
+      weekSpending: data.weekExpenses.reduce((sum, expense) => sum + toHome(expense), 0),
+      topCategories: Object.entries(byCategory)
+        .map(([category, spent]) => ({ category, spent }))
+        .sort((a, b) => b.spent - a.spent)
+        .slice(0, 5),
+    })
+  );
+
+  await admin.from('profiles').update({ last_digest_sent_at: new Date().toISOString() }).eq('id', profile.id);
+  return true;
+}
+
+// Runs hourly from pg_cron. Records bill notifications for every user who wants push or email,
+// pushes the new ones along with the budget alerts the database records, and sends weekly digests
+// that are due.
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  const now = new Date();
+  const today = toIsoDate(now);
+  const pushReady = configurePush();
+  const mail = createMailTransport();
+  const summary = { users: 0, pushed: 0, digests: 0, errors: [] as string[] };
+
+  const { data: profiles, error } = await admin
+    .from('profiles')
+    .select('id, full_name, currency, locale, push_enabled, email_digest_enabled, digest_day, last_digest_sent_at')
+    .or('push_enabled.eq.true,email_digest_enabled.eq.true');
+
+  if (error) {
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  for (const profile of (profiles ?? []) as Profile[]) {
+    summary.users += 1;
+
+    try {
+      const data = await loadUserData(admin, profile.id, today);
+
+      if (profile.push_enabled && pushReady) {
+        await recordNotifications(admin, profile.id, data);
+        const push = await pushPending(admin, profile);
+        summary.pushed += push.pushed;
+        summary.errors.push(...push.errors.map((message) => `${profile.id}: ${message}`));
+      }
+
+      if (profile.email_digest_enabled && isDigestDue(profile, now)) {
+        if (!mail) {
+          summary.errors.push(`${profile.id}: digest skipped, set RESEND_API_KEY or MAIL_TRANSPORT=console`);
+        } else if (await sendDigest(admin, mail, profile, data, today)) {
+          summary.digests += 1;
+        }
+      }
+    } catch (err) {
+      summary.errors.push(`${profile.id}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return Response.json(summary);
+});
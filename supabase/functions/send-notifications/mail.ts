@@ -0,0 +1,54 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+// Sends through the Resend HTTP API
+function resendTransport(apiKey: string, from: string): MailTransport {
+  return {
+    send: async (message) => {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ from, ...message }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Resend rejected the digest for ${message.to}: ${response.status} ${await response.text()}`);
+      }
+    },
+  };
+}
+
+// Stub for local runs: logs each message instead of delivering it
+export function consoleTransport(): MailTransport & { sent: MailMessage[] } {
+  const sent: MailMessage[] = [];
+
+  return {
+    sent,
+    send: async (message) => {
+      sent.push(message);
+      console.log(`[mail] to=${message.to} subject="${message.subject}"\n${message.text}`);
+    },
+  };
+}
+
+// Null when no transport is configured, so digests are skipped rather than logged in production.
+// MAIL_TRANSPORT=console has to be set explicitly and keeps `supabase functions serve` offline.
+export function createMailTransport(): MailTransport | null {
+  if (Deno.env.get('MAIL_TRANSPORT') === 'console') return consoleTransport();
+
+  const apiKey = Deno.env.get('RESEND_API_KEY');
+  if (!apiKey) return null;
+
+  return resendTransport(apiKey, Deno.env.get('MAIL_FROM') ?? 'Finance Tracker <digest@example.com>');
+}
@@ -0,0 +1,39 @@
+import webpush from 'npm:web-push@3.6.7';
+
+export interface PushSubscriptionRow {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  link: string;
+  tag: string;
+}
+
+export function configurePush() {
+  const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+  const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+  if (!publicKey || !privateKey) return false;
+
+  webpush.setVapidDetails(Deno.env.get('VAPID_SUBJECT') ?? 'mailto:admin@example.com', publicKey, privateKey);
+  return true;
+}
+
+// Resolves to false when the push service reports the subscription as gone, so it can be removed
+export async function sendPush(subscription: PushSubscriptionRow, payload: PushPayload) {
+  try {
+    await webpush.sendNotification(
+      { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+      JSON.stringify(payload)
+    );
+    return true;
+  } catch (error) {
+    const statusCode = (error as { statusCode?: number }).statusCode;
+    if (statusCode === 404 || statusCode === 410) return false;
+    throw error;
+  }
+}
@@ -0,0 +1,121 @@
+/*
+  # User Onboarding
+
+  ## Overview
+  Creates the profile row and the default income/expense categories for every user exactly once,
+  instead of relying on the client to do it lazily.
+
+  ## Modified Tables
+
+  ### `profiles`
+  - `onboarded_at` (timestamptz, nullable) - When the default categories were seeded (or skipped
+    because the user already had categories); set once, so seeding never runs twice
+
+  ## New Functions
+
+  ### 1. `seed_default_categories(target_user_id uuid)`
+  Inserts the default category set for a user the first time it runs for them, unless that user
+  already has categories, and records `onboarded_at`. Later calls do nothing, so a user who deletes
+  every category doesn't get the defaults back. Not callable by clients.
+
+  ### 2. `handle_new_user()`
+  Trigger function on `auth.users` that creates the profile (using `full_name` from the sign-up
+  metadata) and seeds the default categories.
+
+  ### 3. `ensure_user_onboarded()`
+  Client-callable RPC that runs the same onboarding for the current `auth.uid()`. Idempotent, so the
+  client can call it after every sign-in to repair accounts created before this migration.
+
+  ## Backfill
+  - Creates missing profiles for existing users
+  - Seeds default categories for existing users with no categories and marks every user onboarded
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS onboarded_at timestamptz;
+
+CREATE OR REPLACE FUNCTION public.seed_default_categories(target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = target_user_id AND onboarded_at IS NOT NULL) THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM categories WHERE user_id = target_user_id) THEN
+    INSERT INTO categories (user_id, name, type, icon, color) VALUES
+      (target_user_id, 'Salary', 'income', 'briefcase', '#10b981'),
+      (target_user_id, 'Freelance', 'income', 'laptop', '#3b82f6'),
+      (target_user_id, 'Food', 'expense', 'utensils', '#f59e0b'),
+      (target_user_id, 'Transport', 'expense', 'car', '#8b5cf6'),
+      (target_user_id, 'Shopping', 'expense', 'shopping-bag', '#ec4899'),
+      (target_user_id, 'Entertainment', 'expense', 'film', '#06b6d4'),
+      (target_user_id, 'Bills', 'expense', 'file-text', '#ef4444'),
+      (target_user_id, 'Health', 'expense', 'heart', '#14b8a6');
+  END IF;
+
+  UPDATE profiles SET onboarded_at = now() WHERE id = target_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.seed_default_categories(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, full_name)
+  VALUES (NEW.id, COALESCE(NEW.raw_user_meta_data->>'full_name', ''))
+  ON CONFLICT (id) DO NOTHING;
+
+  PERFORM seed_default_categories(NEW.id);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_user();
+
+CREATE OR REPLACE FUNCTION public.ensure_user_onboarded()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid := auth.uid();
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO profiles (id, full_name)
+  SELECT id, COALESCE(raw_user_meta_data->>'full_name', '')
+  FROM auth.users
+  WHERE id = current_user_id
+  ON CONFLICT (id) DO NOTHING;
+
+  PERFORM seed_default_categories(current_user_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ensure_user_onboarded() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.ensure_user_onboarded() TO authenticated;
+
+-- Backfill existing users
+INSERT INTO profiles (id, full_name)
+SELECT id, COALESCE(raw_user_meta_data->>'full_name', '')
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+SELECT public.seed_default_categories(id) FROM profiles;
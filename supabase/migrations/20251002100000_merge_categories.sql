@@ -0,0 +1,85 @@
+/*
+  # Category Merge
+
+  ## Overview
+  `transactions.category_id` is `ON DELETE RESTRICT`, so a category that has been used cannot simply
+  be deleted. This function moves everything that references one category onto another and then
+  deletes the source, in a single transaction.
+
+  ## New Functions
+
+  ### `merge_categories(source_category_id uuid, target_category_id uuid)`
+  - Both categories must belong to the caller and share the same type
+  - Reassigns `transactions` and `bill_reminders` to the target
+  - Reassigns `budgets`; where the target already has a budget for the same month, the amounts are added
+  - Deletes the source category
+
+  ## Security
+  - Runs as the caller (SECURITY INVOKER), so the existing RLS policies apply to every statement
+*/
+
+CREATE OR REPLACE FUNCTION public.merge_categories(source_category_id uuid, target_category_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  source_type text;
+  target_type text;
+BEGIN
+  IF source_category_id = target_category_id THEN
+    RAISE EXCEPTION 'Cannot merge a category into itself';
+  END IF;
+
+  SELECT type INTO source_type FROM categories
+  WHERE id = source_category_id AND user_id = auth.uid();
+
+  SELECT type INTO target_type FROM categories
+  WHERE id = target_category_id AND user_id = auth.uid();
+
+  IF source_type IS NULL OR target_type IS NULL THEN
+    RAISE EXCEPTION 'Category not found';
+  END IF;
+
+  IF source_type <> target_type THEN
+    RAISE EXCEPTION 'Only categories of the same type can be merged';
+  END IF;
+
+  UPDATE transactions
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  UPDATE bill_reminders
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  -- Budgets are unique per category and month, so fold overlapping months into the target first
+  UPDATE budgets AS target
+  SET amount = target.amount + source.amount
+  FROM budgets AS source
+  WHERE source.category_id = source_category_id
+    AND target.category_id = target_category_id
+    AND target.user_id = source.user_id
+    AND target.month = source.month
+    AND target.year = source.year;
+
+  DELETE FROM budgets AS source
+  WHERE source.category_id = source_category_id
+    AND EXISTS (
+      SELECT 1 FROM budgets AS target
+      WHERE target.category_id = target_category_id
+        AND target.user_id = source.user_id
+        AND target.month = source.month
+        AND target.year = source.year
+    );
+
+  UPDATE budgets
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  DELETE FROM categories WHERE id = source_category_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_categories(uuid, uuid) TO authenticated;
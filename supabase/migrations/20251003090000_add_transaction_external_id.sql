@@ -0,0 +1,18 @@
+/*
+  # Transaction External References
+
+  ## Overview
+  Statement imports (OFX/QFX) carry a bank-assigned transaction id (FITID). Storing it lets a
+  re-import of an overlapping statement skip rows that were already imported.
+
+  ## Changes
+
+  ### `transactions`
+  - `external_id` (text, nullable) - Reference assigned by the source of an imported transaction
+  - Unique per user; rows without a reference are unaffected since NULLs never conflict
+*/
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS external_id text;
+
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_user_id_external_id_key UNIQUE (user_id, external_id);
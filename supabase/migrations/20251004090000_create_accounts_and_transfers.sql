@@ -0,0 +1,171 @@
+/*
+  # Accounts and Transfers
+
+  ## Overview
+  Adds accounts (wallets) that transactions are booked against, and a `transfer` transaction type
+  that moves money between two accounts without counting as income or expense.
+
+  ## New Tables
+
+  ### `accounts`
+  - `id` (uuid, primary key) - Unique identifier
+  - `user_id` (uuid) - References profiles(id)
+  - `name` (text) - Account name
+  - `type` (text) - 'checking', 'savings', 'credit_card' or 'cash'
+  - `opening_balance` (numeric) - Balance before the first recorded transaction (negative for debt)
+  - `is_archived` (boolean) - Hidden from pickers but kept for history (default: false)
+  - `created_at` (timestamptz) - Creation timestamp
+
+  ## Changes
+
+  ### `transactions`
+  - `account_id` (uuid, nullable) - Account the transaction is booked against; the source account for transfers
+  - `transfer_account_id` (uuid, nullable) - Destination account, only for transfers
+  - `type` now also allows 'transfer'
+  - `category_id` is nullable; transfers have no category, income and expenses still require one
+
+  ## Onboarding
+  - `seed_default_account(uuid)` creates a "Main Account" for users without accounts
+  - New users get it from the sign-up trigger; existing users are backfilled and their
+    transactions are assigned to it
+
+  ## Security
+  - RLS on `accounts` with the same ownership policies as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  type text NOT NULL CHECK (type IN ('checking', 'savings', 'credit_card', 'cash')),
+  opening_balance numeric NOT NULL DEFAULT 0,
+  is_archived boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON accounts(user_id);
+
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own accounts"
+  ON accounts FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own accounts"
+  ON accounts FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own accounts"
+  ON accounts FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own accounts"
+  ON accounts FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Transactions: accounts and transfers
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES accounts(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS transfer_account_id uuid REFERENCES accounts(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_account_id ON transactions(account_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_account_id ON transactions(transfer_account_id);
+
+ALTER TABLE transactions ALTER COLUMN category_id DROP NOT NULL;
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_type_check CHECK (type IN ('income', 'expense', 'transfer'));
+
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_transfer_shape_check CHECK (
+    (
+      type = 'transfer'
+      AND category_id IS NULL
+      AND account_id IS NOT NULL
+      AND transfer_account_id IS NOT NULL
+      AND account_id <> transfer_account_id
+    )
+    OR (
+      type <> 'transfer'
+      AND category_id IS NOT NULL
+      AND transfer_account_id IS NULL
+    )
+  );
+
+-- Default account for every user
+CREATE OR REPLACE FUNCTION public.seed_default_account(target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM accounts WHERE user_id = target_user_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO accounts (user_id, name, type) VALUES (target_user_id, 'Main Account', 'checking');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.seed_default_account(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, full_name)
+  VALUES (NEW.id, COALESCE(NEW.raw_user_meta_data->>'full_name', ''))
+  ON CONFLICT (id) DO NOTHING;
+
+  PERFORM seed_default_categories(NEW.id);
+  PERFORM seed_default_account(NEW.id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.ensure_user_onboarded()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid := auth.uid();
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO profiles (id, full_name)
+  SELECT id, COALESCE(raw_user_meta_data->>'full_name', '')
+  FROM auth.users
+  WHERE id = current_user_id
+  ON CONFLICT (id) DO NOTHING;
+
+  PERFORM seed_default_categories(current_user_id);
+  PERFORM seed_default_account(current_user_id);
+END;
+$$;
+
+-- Backfill existing users and their transactions
+SELECT public.seed_default_account(id) FROM profiles;
+
+UPDATE transactions t
+SET account_id = (
+  SELECT a.id FROM accounts a
+  WHERE a.user_id = t.user_id
+  ORDER BY a.created_at
+  LIMIT 1
+)
+WHERE t.account_id IS NULL;
@@ -0,0 +1,103 @@
+/*
+  # Multi-currency Support
+
+  ## Overview
+  Transactions can be recorded in any currency. Each one stores the exchange rate to the user's
+  home currency (`profiles.currency`) at the time it was entered, so totals can be converted
+  without depending on today's rates.
+
+  ## Changes
+
+  ### `profiles`
+  - `locale` (text) - BCP 47 locale used to format amounts and dates (default: 'en-US')
+
+  ### `transactions`
+  - `currency` (text) - ISO 4217 code; filled from the profile currency when omitted
+  - `exchange_rate` (numeric) - Home currency units per one unit of `currency` (default: 1)
+
+  ## New Tables
+
+  ### `exchange_rates`
+  The latest rate a user entered for each foreign currency, used to prefill new transactions.
+  - `id` (uuid, primary key) - Unique identifier
+  - `user_id` (uuid) - References profiles(id)
+  - `currency` (text) - ISO 4217 code
+  - `rate` (numeric) - Home currency units per one unit of `currency`
+  - `updated_at` (timestamptz) - Last time the rate was changed
+  - Unique constraint on (user_id, currency)
+
+  ## Security
+  - RLS on `exchange_rates` with the same ownership policies as the other tables
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS locale text NOT NULL DEFAULT 'en-US';
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS currency text,
+  ADD COLUMN IF NOT EXISTS exchange_rate numeric NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+
+-- Existing transactions were recorded in the home currency
+UPDATE transactions t
+SET currency = COALESCE(p.currency, 'USD')
+FROM profiles p
+WHERE p.id = t.user_id AND t.currency IS NULL;
+
+UPDATE transactions SET currency = 'USD' WHERE currency IS NULL;
+
+CREATE OR REPLACE FUNCTION public.set_transaction_currency()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.currency IS NULL THEN
+    SELECT currency INTO NEW.currency FROM profiles WHERE id = NEW.user_id;
+    NEW.currency := COALESCE(NEW.currency, 'USD');
+    NEW.exchange_rate := 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_transaction_currency ON transactions;
+CREATE TRIGGER set_transaction_currency
+  BEFORE INSERT ON transactions
+  FOR EACH ROW EXECUTE FUNCTION public.set_transaction_currency();
+
+ALTER TABLE transactions ALTER COLUMN currency SET NOT NULL;
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  currency text NOT NULL,
+  rate numeric NOT NULL CHECK (rate > 0),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, currency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_user_id ON exchange_rates(user_id);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own exchange rates"
+  ON exchange_rates FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own exchange rates"
+  ON exchange_rates FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own exchange rates"
+  ON exchange_rates FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own exchange rates"
+  ON exchange_rates FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,253 @@
+/*
+  # Recurring Transactions
+
+  ## Overview
+  Recurring rules describe income or expenses that repeat on a schedule. A generator materializes
+  every occurrence that has come due into `transactions`; it can run any number of times without
+  creating duplicates.
+
+  ## New Tables
+
+  ### `recurring_transactions`
+  - `id` (uuid, primary key) - Unique identifier
+  - `user_id` (uuid) - References profiles(id)
+  - `category_id` (uuid) - References categories(id)
+  - `account_id` (uuid, nullable) - References accounts(id)
+  - `type` (text) - 'income' or 'expense'
+  - `amount` (numeric) - Amount of each occurrence
+  - `currency` (text) - ISO 4217 code; filled from the profile currency when omitted
+  - `exchange_rate` (numeric) - Home currency units per one unit of `currency` (default: 1)
+  - `description` (text) - Copied onto each occurrence
+  - `frequency` (text) - 'daily', 'weekly', 'biweekly', 'monthly' or 'yearly'
+  - `start_date` (date) - First occurrence; later ones are counted from it
+  - `end_date` (date, nullable) - No occurrences after this date
+  - `occurrence_limit` (integer, nullable) - Stop after this many occurrences from `start_date`
+  - `occurrences_generated` (integer) - Occurrences materialized since `start_date`
+  - `next_date` (date, nullable) - Next occurrence to materialize; null once the series has ended
+  - `is_paused` (boolean) - Paused series are skipped by the generator (default: false)
+  - `created_at` (timestamptz) - Creation timestamp
+
+  ## Changes
+
+  ### `transactions`
+  - `recurring_id` (uuid, nullable) - Series the transaction was generated from
+  - `occurrence_date` (date, nullable) - Scheduled date of that occurrence, even if `date` is edited later
+  - Unique constraint on (recurring_id, occurrence_date) so an occurrence is only created once
+
+  ## New Functions
+
+  ### `recurring_occurrence_date(start_date date, frequency text, n integer)`
+  - Date of the n-th occurrence (0-based); monthly and yearly dates clamp to the end of short months
+
+  ### `generate_recurring_transactions(up_to date)`
+  - Creates the caller's due occurrences up to and including `up_to` (default: today)
+  - Returns the number of transactions created
+  - Runs as the caller (SECURITY INVOKER) so RLS applies
+
+  ### `merge_categories`
+  - Now also reassigns recurring rules to the target category
+
+  ## Security
+  - RLS on `recurring_transactions` with the same ownership policies as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS recurring_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  category_id uuid NOT NULL REFERENCES categories(id) ON DELETE RESTRICT,
+  account_id uuid REFERENCES accounts(id) ON DELETE RESTRICT,
+  type text NOT NULL CHECK (type IN ('income', 'expense')),
+  amount numeric NOT NULL CHECK (amount > 0),
+  currency text,
+  exchange_rate numeric NOT NULL DEFAULT 1 CHECK (exchange_rate > 0),
+  description text DEFAULT '',
+  frequency text NOT NULL CHECK (frequency IN ('daily', 'weekly', 'biweekly', 'monthly', 'yearly')),
+  start_date date NOT NULL,
+  end_date date,
+  occurrence_limit integer CHECK (occurrence_limit > 0),
+  occurrences_generated integer NOT NULL DEFAULT 0,
+  next_date date,
+  is_paused boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_user_id ON recurring_transactions(user_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_next_date ON recurring_transactions(next_date);
+
+ALTER TABLE recurring_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recurring transactions"
+  ON recurring_transactions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own recurring transactions"
+  ON recurring_transactions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own recurring transactions"
+  ON recurring_transactions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own recurring transactions"
+  ON recurring_transactions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Same currency default as transactions
+DROP TRIGGER IF EXISTS set_recurring_transaction_currency ON recurring_transactions;
+CREATE TRIGGER set_recurring_transaction_currency
+  BEFORE INSERT ON recurring_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.set_transaction_currency();
+
+-- Transactions generated from a series
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS recurring_id uuid REFERENCES recurring_transactions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS occurrence_date date;
+
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_recurring_occurrence_key UNIQUE (recurring_id, occurrence_date);
+
+CREATE OR REPLACE FUNCTION public.recurring_occurrence_date(start_date date, frequency text, n integer)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE frequency
+    WHEN 'daily' THEN start_date + n
+    WHEN 'weekly' THEN start_date + 7 * n
+    WHEN 'biweekly' THEN start_date + 14 * n
+    WHEN 'monthly' THEN (start_date + make_interval(months => n))::date
+    WHEN 'yearly' THEN (start_date + make_interval(years => n))::date
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_recurring_transactions(up_to date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  rule recurring_transactions%ROWTYPE;
+  occurrence date;
+  created integer := 0;
+  inserted integer;
+BEGIN
+  -- Rows being processed by a concurrent call are skipped instead of generated twice
+  FOR rule IN
+    SELECT * FROM recurring_transactions
+    WHERE user_id = auth.uid()
+      AND NOT is_paused
+      AND next_date IS NOT NULL
+      AND next_date <= up_to
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    occurrence := rule.next_date;
+
+    WHILE occurrence IS NOT NULL AND occurrence <= up_to LOOP
+      INSERT INTO transactions (
+        user_id, category_id, account_id, type, amount, currency, exchange_rate,
+        description, date, recurring_id, occurrence_date
+      )
+      VALUES (
+        rule.user_id, rule.category_id, rule.account_id, rule.type, rule.amount, rule.currency,
+        rule.exchange_rate, rule.description, occurrence, rule.id, occurrence
+      )
+      ON CONFLICT (recurring_id, occurrence_date) DO NOTHING;
+
+      GET DIAGNOSTICS inserted = ROW_COUNT;
+      created := created + inserted;
+
+      rule.occurrences_generated := rule.occurrences_generated + 1;
+      occurrence := recurring_occurrence_date(rule.start_date, rule.frequency, rule.occurrences_generated);
+
+      IF (rule.end_date IS NOT NULL AND occurrence > rule.end_date)
+        OR (rule.occurrence_limit IS NOT NULL AND rule.occurrences_generated >= rule.occurrence_limit) THEN
+        occurrence := NULL;
+      END IF;
+    END LOOP;
+
+    UPDATE recurring_transactions
+    SET occurrences_generated = rule.occurrences_generated,
+        next_date = occurrence
+    WHERE id = rule.id;
+  END LOOP;
+
+  RETURN created;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.generate_recurring_transactions(date) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.merge_categories(source_category_id uuid, target_category_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  source_type text;
+  target_type text;
+BEGIN
+  IF source_category_id = target_category_id THEN
+    RAISE EXCEPTION 'Cannot merge a category into itself';
+  END IF;
+
+  SELECT type INTO source_type FROM categories
+  WHERE id = source_category_id AND user_id = auth.uid();
+
+  SELECT type INTO target_type FROM categories
+  WHERE id = target_category_id AND user_id = auth.uid();
+
+  IF source_type IS NULL OR target_type IS NULL THEN
+    RAISE EXCEPTION 'Category not found';
+  END IF;
+
+  IF source_type <> target_type THEN
+    RAISE EXCEPTION 'Only categories of the same type can be merged';
+  END IF;
+
+  UPDATE transactions
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  UPDATE recurring_transactions
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  UPDATE bill_reminders
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  -- Budgets are unique per category and month, so fold overlapping months into the target first
+  UPDATE budgets AS target
+  SET amount = target.amount + source.amount
+  FROM budgets AS source
+  WHERE source.category_id = source_category_id
+    AND target.category_id = target_category_id
+    AND target.user_id = source.user_id
+    AND target.month = source.month
+    AND target.year = source.year;
+
+  DELETE FROM budgets AS source
+  WHERE source.category_id = source_category_id
+    AND EXISTS (
+      SELECT 1 FROM budgets AS target
+      WHERE target.category_id = target_category_id
+        AND target.user_id = source.user_id
+        AND target.month = source.month
+        AND target.year = source.year
+    );
+
+  UPDATE budgets
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  DELETE FROM categories WHERE id = source_category_id;
+END;
+$$;
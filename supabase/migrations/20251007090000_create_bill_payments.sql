@@ -0,0 +1,102 @@
+/*
+  # Bill Payments
+
+  ## Overview
+  Records which period of a bill reminder has been paid, and by which transaction. A bill
+  reminder is due once per period; a period without a payment after its due date is overdue.
+
+  ## New Tables
+
+  ### `bill_payments`
+  - `id` (uuid, primary key) - Unique identifier
+  - `user_id` (uuid) - References profiles(id)
+  - `reminder_id` (uuid) - References bill_reminders(id)
+  - `due_on` (date) - Due date of the period this payment settles
+  - `transaction_id` (uuid, nullable) - The expense that paid the bill; deleting it reopens the period
+  - `amount` (numeric) - Amount paid
+  - `is_auto_matched` (boolean) - True when an existing transaction was matched to the bill
+    automatically rather than created with "Mark paid"
+  - `paid_at` (timestamptz) - When the payment was recorded
+  - Unique constraint on (reminder_id, due_on): one payment per period
+  - Unique constraint on transaction_id: a transaction pays at most one bill period
+
+  ### `bill_match_dismissals`
+  - `id` (uuid, primary key) - Unique identifier
+  - `user_id` (uuid) - References profiles(id)
+  - `reminder_id` (uuid) - References bill_reminders(id)
+  - `transaction_id` (uuid) - References transactions(id)
+  - `created_at` (timestamptz) - When the automatic match was unlinked
+  - Unique constraint on (reminder_id, transaction_id)
+  - Written when an automatic match is unlinked, so the same transaction isn't matched to the
+    bill again
+
+  ## Security
+  - RLS on `bill_payments` and `bill_match_dismissals` with the same ownership policies as the
+    other tables
+*/
+
+CREATE TABLE IF NOT EXISTS bill_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reminder_id uuid NOT NULL REFERENCES bill_reminders(id) ON DELETE CASCADE,
+  due_on date NOT NULL,
+  transaction_id uuid UNIQUE REFERENCES transactions(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount >= 0),
+  is_auto_matched boolean NOT NULL DEFAULT false,
+  paid_at timestamptz DEFAULT now(),
+  UNIQUE(reminder_id, due_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_payments_user_id ON bill_payments(user_id);
+CREATE INDEX IF NOT EXISTS idx_bill_payments_reminder_id ON bill_payments(reminder_id);
+
+ALTER TABLE bill_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own bill payments"
+  ON bill_payments FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own bill payments"
+  ON bill_payments FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own bill payments"
+  ON bill_payments FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own bill payments"
+  ON bill_payments FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS bill_match_dismissals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reminder_id uuid NOT NULL REFERENCES bill_reminders(id) ON DELETE CASCADE,
+  transaction_id uuid NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(reminder_id, transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_match_dismissals_user_id ON bill_match_dismissals(user_id);
+
+ALTER TABLE bill_match_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own bill match dismissals"
+  ON bill_match_dismissals FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own bill match dismissals"
+  ON bill_match_dismissals FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own bill match dismissals"
+  ON bill_match_dismissals FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,87 @@
+/*
+  # Flexible Bill Schedules
+
+  ## Overview
+  Bill reminders were a day of the month plus a recurring flag, which can't describe quarterly
+  insurance, annual subscriptions, weekly payments or "last business day" bills. A reminder now
+  carries a schedule: a frequency and interval counted from an anchor date, with end-of-month and
+  weekend-shift rules. Due dates are computed by the client from these columns.
+
+  ## Modified Tables
+
+  ### `bill_reminders`
+  - `frequency` (text) - 'once', 'weekly', 'monthly' or 'yearly'
+  - `interval_count` (integer) - Repeat every N weeks/months/years (e.g. 3 months for quarterly)
+  - `anchor_date` (date) - First due date; later due dates are counted from it
+  - `end_of_month` (boolean) - Monthly and yearly bills fall on the last day of the month
+  - `weekend_shift` (text) - 'none', 'before' (previous Friday) or 'after' (next Monday) when a
+    due date falls on a weekend
+  - Drops `due_date` and `is_recurring`, which the schedule replaces
+
+  ## Data Migration
+  - Recurring reminders become monthly, anchored on their day in the month they were created
+    (or the month before, when that month is too short), so existing `bill_payments.due_on`
+    values keep matching the computed due dates
+  - Reminders due on the 31st become end-of-month bills
+  - One-time reminders are anchored on their first due date after creation
+*/
+
+ALTER TABLE bill_reminders
+  ADD COLUMN IF NOT EXISTS frequency text NOT NULL DEFAULT 'monthly'
+    CHECK (frequency IN ('once', 'weekly', 'monthly', 'yearly')),
+  ADD COLUMN IF NOT EXISTS interval_count integer NOT NULL DEFAULT 1 CHECK (interval_count >= 1),
+  ADD COLUMN IF NOT EXISTS anchor_date date,
+  ADD COLUMN IF NOT EXISTS end_of_month boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS weekend_shift text NOT NULL DEFAULT 'none'
+    CHECK (weekend_shift IN ('none', 'before', 'after'));
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bill_reminders' AND column_name = 'due_date'
+  ) THEN
+    WITH months AS (
+      SELECT
+        id,
+        due_date,
+        is_recurring,
+        created_at::date AS created_on,
+        date_trunc('month', created_at)::date AS month_start
+      FROM bill_reminders
+    ),
+    candidates AS (
+      SELECT
+        id,
+        due_date,
+        is_recurring,
+        created_on,
+        month_start,
+        LEAST(month_start + (due_date - 1), (month_start + interval '1 month - 1 day')::date) AS this_month,
+        LEAST(
+          (month_start + interval '1 month')::date + (due_date - 1),
+          (month_start + interval '2 months - 1 day')::date
+        ) AS next_month
+      FROM months
+    )
+    UPDATE bill_reminders b
+    SET
+      frequency = CASE WHEN c.is_recurring THEN 'monthly' ELSE 'once' END,
+      end_of_month = c.is_recurring AND c.due_date = 31,
+      anchor_date = CASE
+        WHEN NOT c.is_recurring THEN
+          CASE WHEN c.this_month >= c.created_on THEN c.this_month ELSE c.next_month END
+        WHEN c.this_month = c.month_start + (c.due_date - 1) THEN c.this_month
+        ELSE (c.month_start - interval '1 month')::date + (c.due_date - 1)
+      END
+    FROM candidates c
+    WHERE b.id = c.id;
+
+    ALTER TABLE bill_reminders DROP COLUMN due_date;
+    ALTER TABLE bill_reminders DROP COLUMN is_recurring;
+  END IF;
+END $$;
+
+UPDATE bill_reminders SET anchor_date = created_at::date WHERE anchor_date IS NULL;
+
+ALTER TABLE bill_reminders ALTER COLUMN anchor_date SET NOT NULL;
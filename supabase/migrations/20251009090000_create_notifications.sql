@@ -0,0 +1,79 @@
+/*
+  # Notifications
+
+  ## Overview
+  Persists the items shown in the header's notification center. The client derives notifications
+  from bills, budgets and transactions and inserts each one once, keyed by `source_key`, so
+  read, dismissed and snoozed state survives reloads and a dismissed item never comes back.
+
+  ## New Tables
+
+  ### `notifications`
+  - `id` (uuid, primary key) - Unique identifier
+  - `user_id` (uuid) - References profiles(id)
+  - `kind` (text) - 'bill_due', 'bill_overdue', 'budget_exceeded' or 'large_transaction'
+  - `title` (text) - What the notification is about: bill title, category name or description
+  - `amount` (numeric, nullable) - Bill amount, budget spend or transaction amount, in the home currency
+  - `event_date` (date, nullable) - Due date or transaction date
+  - `link` (text) - Page the notification opens
+  - `source_key` (text) - Identifies the event, e.g. `bill_due:<reminder id>:<due date>`
+  - `read_at` (timestamptz, nullable) - When it was read
+  - `dismissed_at` (timestamptz, nullable) - When it was dismissed or resolved
+  - `snoozed_until` (timestamptz, nullable) - Hidden until this time
+  - `created_at` (timestamptz) - Creation timestamp
+  - Unique constraint on (user_id, source_key)
+
+  ## Modified Tables
+
+  ### `profiles`
+  - `large_transaction_threshold` (numeric) - Transactions at or above this amount raise a
+    notification; 0 turns the alert off
+
+  ## Security
+  - RLS on `notifications` with the same ownership policies as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('bill_due', 'bill_overdue', 'budget_exceeded', 'large_transaction')),
+  title text NOT NULL,
+  amount numeric,
+  event_date date,
+  link text NOT NULL,
+  source_key text NOT NULL,
+  read_at timestamptz,
+  dismissed_at timestamptz,
+  snoozed_until timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, source_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notifications"
+  ON notifications FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS large_transaction_threshold numeric NOT NULL DEFAULT 1000
+    CHECK (large_transaction_threshold >= 0);
@@ -0,0 +1,139 @@
+/*
+  # Push Notifications and Email Digests
+
+  ## Overview
+  Lets reminders reach users who don't have the app open. Browsers register Web Push
+  subscriptions, and the `send-notifications` edge function runs every hour to record new bill and
+  budget notifications, push them to every subscribed device, and send the weekly email digest to
+  users who asked for it.
+
+  ## New Tables
+
+  ### `push_subscriptions`
+  - `id` (uuid, primary key) - Unique identifier
+  - `user_id` (uuid) - References profiles(id)
+  - `endpoint` (text, unique) - Push service endpoint of the browser subscription
+  - `p256dh` (text) - Subscription public key
+  - `auth` (text) - Subscription auth secret
+  - `user_agent` (text) - Browser that subscribed, to tell devices apart in settings
+  - `created_at` (timestamptz) - Creation timestamp
+
+  ## Modified Tables
+
+  ### `notifications`
+  - `pushed_at` (timestamptz, nullable) - When the notification was sent as a push message
+
+  ### `profiles`
+  - `push_enabled` (boolean) - Send push notifications to subscribed devices
+  - `email_digest_enabled` (boolean) - Send the weekly email digest
+  - `digest_day` (smallint) - Day of the week the digest is sent, 0 = Sunday
+  - `last_digest_sent_at` (timestamptz, nullable) - Keeps the hourly job from sending twice
+
+  ## New Functions
+
+  ### `save_push_subscription(push_endpoint, push_p256dh, push_auth, push_user_agent)`
+  - Saves this browser's subscription for the caller. An endpoint belongs to one browser, so a row
+    left behind by someone who used the browser before is taken over rather than kept sending them
+    pushes; RLS hides that row from the caller, hence SECURITY DEFINER
+
+  ## Scheduling
+  - `pg_cron` calls the edge function hourly through `pg_net`, reading the project URL and service
+    role key from Vault secrets named `project_url` and `service_role_key`
+
+  ## Security
+  - RLS on `push_subscriptions` with the same ownership policies as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push subscriptions"
+  ON push_subscriptions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own push subscriptions"
+  ON push_subscriptions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own push subscriptions"
+  ON push_subscriptions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push subscriptions"
+  ON push_subscriptions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.save_push_subscription(
+  push_endpoint text,
+  push_p256dh text,
+  push_auth text,
+  push_user_agent text DEFAULT ''
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid := auth.uid();
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (current_user_id, push_endpoint, push_p256dh, push_auth, push_user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent,
+      created_at = now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_push_subscription(text, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_push_subscription(text, text, text, text) TO authenticated;
+
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS pushed_at timestamptz;
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS push_enabled boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS email_digest_enabled boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS digest_day smallint NOT NULL DEFAULT 1 CHECK (digest_day BETWEEN 0 AND 6),
+  ADD COLUMN IF NOT EXISTS last_digest_sent_at timestamptz;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-notifications',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,18 @@
+/*
+  # Budget Rollover
+
+  ## Overview
+  Supports envelope-style budgeting. A budget can roll its unspent (or overspent) amount into the
+  same category's budget for the next month. Carried-over amounts are not stored: the app sums
+  `amount - spent` over the unbroken run of rollover budgets leading up to a month, so late
+  transactions in an earlier month are always reflected.
+
+  ## Modified Tables
+
+  ### `budgets`
+  - `rollover` (boolean) - Carry this month's leftover, positive or negative, into next month
+*/
+
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS rollover boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_budgets_rollover ON budgets(user_id, category_id, year, month) WHERE rollover;
@@ -0,0 +1,15 @@
+/*
+  # Zero-Based Budgeting
+
+  ## Overview
+  Adds an optional zero-based (envelope) mode to budget planning. In this mode the month's income
+  is the pool to assign, and the Budget page shows how much is still "to be assigned" across
+  expense categories. Assignments are ordinary `budgets` rows, so nothing else changes.
+
+  ## Modified Tables
+
+  ### `profiles`
+  - `zero_based_budgeting` (boolean) - Show the Budget page in zero-based mode
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS zero_based_budgeting boolean NOT NULL DEFAULT false;
@@ -0,0 +1,122 @@
+/*
+  # Budget Periods
+
+  ## Overview
+  Budgets were always one calendar month. A budget now has a period: weekly, monthly, quarterly,
+  yearly or a custom date range. Monthly budgets keep working as before, one row per month.
+  Weekly, quarterly and yearly budgets are set once and repeat from `start_date`; the app tracks
+  spending against the period that contains the day being viewed. A custom budget covers exactly
+  `start_date` to `end_date`.
+
+  ## Modified Tables
+
+  ### `budgets`
+  - `period` (text) - 'weekly', 'monthly', 'quarterly', 'yearly' or 'custom'
+  - `start_date` (date) - First day of the budget; periods are counted from it
+  - `end_date` (date, nullable) - Last day of a custom budget; NULL for every other period
+  - `month` / `year` now hold the month `start_date` falls in for every period
+  - The unique key becomes (user_id, category_id, period, month, year) so a category can have, say,
+    a monthly and a yearly budget at the same time
+
+  ## Data Migration
+  - Existing budgets become monthly budgets starting on the first of their month
+
+  ## Modified Functions
+
+  ### `merge_categories`
+  - Folds a source budget into the target's budget only when both have the same period, month and
+    year, matching the new unique key
+  - Folded custom budgets are paired by id and the target's range widens to cover both ranges
+*/
+
+ALTER TABLE budgets
+  ADD COLUMN IF NOT EXISTS period text NOT NULL DEFAULT 'monthly'
+    CHECK (period IN ('weekly', 'monthly', 'quarterly', 'yearly', 'custom')),
+  ADD COLUMN IF NOT EXISTS start_date date,
+  ADD COLUMN IF NOT EXISTS end_date date;
+
+UPDATE budgets SET start_date = make_date(year, month, 1) WHERE start_date IS NULL;
+
+ALTER TABLE budgets ALTER COLUMN start_date SET NOT NULL;
+
+ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_period_range_check;
+ALTER TABLE budgets
+  ADD CONSTRAINT budgets_period_range_check CHECK (
+    (period = 'custom') = (end_date IS NOT NULL) AND (end_date IS NULL OR end_date >= start_date)
+  );
+
+ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_user_id_category_id_month_year_key;
+ALTER TABLE budgets
+  ADD CONSTRAINT budgets_user_id_category_id_period_month_year_key UNIQUE (user_id, category_id, period, month, year);
+
+CREATE INDEX IF NOT EXISTS idx_budgets_start_date ON budgets(user_id, start_date);
+
+
+CREATE OR REPLACE FUNCTION public.merge_categories(source_category_id uuid, target_category_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  source_type text;
+  target_type text;
+  folded_budget_ids uuid[];
+BEGIN
+  IF source_category_id = target_category_id THEN
+    RAISE EXCEPTION 'Cannot merge a category into itself';
+  END IF;
+
+  SELECT type INTO source_type FROM categories
+  WHERE id = source_category_id AND user_id = auth.uid();
+
+  SELECT type INTO target_type FROM categories
+  WHERE id = target_category_id AND user_id = auth.uid();
+
+  IF source_type IS NULL OR target_type IS NULL THEN
+    RAISE EXCEPTION 'Category not found';
+  END IF;
+
+  IF source_type <> target_type THEN
+    RAISE EXCEPTION 'Only categories of the same type can be merged';
+  END IF;
+
+  UPDATE transactions
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  UPDATE recurring_transactions
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  UPDATE bill_reminders
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  -- Budgets are unique per category, period and month, so fold clashing budgets into the target
+  -- first and remember which source rows were folded
+  WITH folded AS (
+    UPDATE budgets AS target
+    SET amount = target.amount + source.amount,
+        start_date = CASE WHEN target.period = 'custom' THEN LEAST(target.start_date, source.start_date) ELSE target.start_date END,
+        end_date = CASE WHEN target.period = 'custom' THEN GREATEST(target.end_date, source.end_date) ELSE target.end_date END
+    FROM budgets AS source
+    WHERE source.category_id = source_category_id
+      AND target.category_id = target_category_id
+      AND target.user_id = source.user_id
+      AND target.period = source.period
+      AND target.month = source.month
+      AND target.year = source.year
+    RETURNING source.id
+  )
+  SELECT array_agg(id) INTO folded_budget_ids FROM folded;
+
+  DELETE FROM budgets WHERE id = ANY(folded_budget_ids);
+
+  UPDATE budgets
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  DELETE FROM categories WHERE id = source_category_id;
+END;
+$$;
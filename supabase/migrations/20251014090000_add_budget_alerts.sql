@@ -0,0 +1,248 @@
+/*
+  # Budget Alerts
+
+  ## Overview
+  Each budget has alert thresholds, as percentages of what it can spend in its current period.
+  When a transaction pushes a budget's spending past one of them, an alert is recorded for that
+  budget and period and a notification is created, so the alert shows up whether the transaction
+  came from the app, an import or a recurring series. Each threshold fires at most once per period.
+
+  ## Modified Tables
+
+  ### `budgets`
+  - `alert_thresholds` (integer[]) - Percentages that raise an alert (default: 80 and 100)
+
+  ### `notifications`
+  - `kind` also accepts 'budget_threshold'
+
+  ## New Tables
+
+  ### `budget_alerts`
+  - `id` (uuid, primary key) - Unique identifier
+  - `user_id` (uuid) - References profiles(id)
+  - `budget_id` (uuid) - References budgets(id); alerts are deleted with their budget
+  - `transaction_id` (uuid, nullable) - Transaction that crossed the threshold
+  - `threshold` (integer) - Percentage that was crossed
+  - `window_start` / `window_end` (date) - Budget period the alert belongs to
+  - `spent` (numeric) - Spending in the period once the transaction was saved, in the home currency
+  - `available` (numeric) - What the budget could spend in the period, including carried-over money
+  - `created_at` (timestamptz) - When the alert fired
+  - Unique on (budget_id, threshold, window_start)
+
+  ## New Functions
+
+  ### `budget_window(period text, start_date date, end_date date, reference date)`
+  - Period of a budget that contains `reference`, as a date range; mirrors budgetWindow() in
+    src/lib/budgets.ts
+
+  ### `budget_carry_over(user_id uuid, category_id uuid, month integer, year integer)`
+  - Leftover carried into a month from the unbroken run of monthly rollover budgets before it;
+    mirrors loadCarryOver() in src/lib/budgets.ts
+
+  ### `record_budget_alerts()`
+  - Trigger on `transactions` that records alerts for the budgets covering an expense's date
+
+  ## Security
+  - RLS on `budget_alerts`: users can view and delete their own alerts; alerts are only inserted by
+    the trigger, which runs as the user saving the transaction
+*/
+
+ALTER TABLE budgets
+  ADD COLUMN IF NOT EXISTS alert_thresholds integer[] NOT NULL DEFAULT '{80,100}'
+    CHECK (0 < ALL (alert_thresholds));
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_kind_check;
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_kind_check
+    CHECK (kind IN ('bill_due', 'bill_overdue', 'budget_exceeded', 'budget_threshold', 'large_transaction'));
+
+CREATE TABLE IF NOT EXISTS budget_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  budget_id uuid NOT NULL REFERENCES budgets(id) ON DELETE CASCADE,
+  transaction_id uuid REFERENCES transactions(id) ON DELETE SET NULL,
+  threshold integer NOT NULL,
+  window_start date NOT NULL,
+  window_end date NOT NULL,
+  spent numeric NOT NULL,
+  available numeric NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (budget_id, threshold, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_alerts_user_id ON budget_alerts(user_id, created_at DESC);
+
+ALTER TABLE budget_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own budget alerts"
+  ON budget_alerts FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own budget alerts"
+  ON budget_alerts FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own budget alerts"
+  ON budget_alerts FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.budget_window(period text, start_date date, end_date date, reference date)
+RETURNS daterange
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  months integer;
+  steps integer;
+  n integer;
+BEGIN
+  IF period = 'custom' THEN
+    RETURN daterange(start_date, end_date, '[]');
+  END IF;
+
+  IF period = 'monthly' THEN
+    RETURN daterange(start_date, (date_trunc('month', start_date) + interval '1 month')::date, '[)');
+  END IF;
+
+  IF period = 'weekly' THEN
+    n := greatest(floor((reference - start_date) / 7.0)::integer, 0);
+    RETURN daterange(start_date + 7 * n, start_date + 7 * (n + 1), '[)');
+  END IF;
+
+  steps := CASE period WHEN 'quarterly' THEN 3 ELSE 12 END;
+  months := (extract(year FROM reference) - extract(year FROM start_date))::integer * 12
+    + (extract(month FROM reference) - extract(month FROM start_date))::integer
+    - CASE WHEN extract(day FROM reference) < extract(day FROM start_date) THEN 1 ELSE 0 END;
+  n := greatest(floor(months / steps::numeric)::integer, 0);
+
+  RETURN daterange(
+    recurring_occurrence_date(start_date, 'monthly', n * steps),
+    recurring_occurrence_date(start_date, 'monthly', (n + 1) * steps),
+    '[)'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.budget_carry_over(user_id uuid, category_id uuid, month integer, year integer)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  month_start date := make_date(year, month, 1);
+  previous_amount numeric;
+  carried numeric := 0;
+BEGIN
+  LOOP
+    month_start := (month_start - interval '1 month')::date;
+
+    SELECT b.amount INTO previous_amount
+    FROM budgets b
+    WHERE b.user_id = budget_carry_over.user_id
+      AND b.category_id = budget_carry_over.category_id
+      AND b.period = 'monthly'
+      AND b.rollover
+      AND b.start_date = month_start;
+
+    EXIT WHEN NOT FOUND;
+
+    carried := carried + previous_amount - coalesce((
+      SELECT sum(t.amount * t.exchange_rate)
+      FROM transactions t
+      WHERE t.user_id = budget_carry_over.user_id
+        AND t.category_id = budget_carry_over.category_id
+        AND t.type = 'expense'
+        AND t.date >= month_start
+        AND t.date < (month_start + interval '1 month')::date
+    ), 0);
+  END LOOP;
+
+  RETURN carried;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_budget_alerts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  budget budgets%ROWTYPE;
+  budget_range daterange;
+  category_name text;
+  spent numeric;
+  available numeric;
+  threshold integer;
+  alert_id uuid;
+BEGIN
+  SELECT name INTO category_name FROM categories WHERE id = NEW.category_id;
+
+  -- The newest budget of each period covering the transaction's date; custom ranges can overlap
+  FOR budget IN
+    SELECT DISTINCT ON (b.period, CASE WHEN b.period = 'custom' THEN b.id END) b.*
+    FROM budgets b
+    WHERE b.user_id = NEW.user_id
+      AND b.category_id = NEW.category_id
+      AND b.start_date <= NEW.date
+    ORDER BY b.period, CASE WHEN b.period = 'custom' THEN b.id END, b.start_date DESC
+  LOOP
+    budget_range := budget_window(budget.period, budget.start_date, budget.end_date, NEW.date);
+    CONTINUE WHEN NOT NEW.date <@ budget_range;
+
+    available := budget.amount;
+    IF budget.period = 'monthly' THEN
+      available := available + budget_carry_over(budget.user_id, budget.category_id, budget.month, budget.year);
+    END IF;
+    CONTINUE WHEN available <= 0;
+
+    SELECT coalesce(sum(t.amount * t.exchange_rate), 0) INTO spent
+    FROM transactions t
+    WHERE t.user_id = NEW.user_id
+      AND t.category_id = NEW.category_id
+      AND t.type = 'expense'
+      AND t.date <@ budget_range;
+
+    FOREACH threshold IN ARRAY budget.alert_thresholds LOOP
+      CONTINUE WHEN spent < available * threshold / 100;
+
+      INSERT INTO budget_alerts (
+        user_id, budget_id, transaction_id, threshold, window_start, window_end, spent, available
+      )
+      VALUES (
+        NEW.user_id, budget.id, NEW.id, threshold, lower(budget_range), upper(budget_range) - 1, spent, available
+      )
+      ON CONFLICT (budget_id, threshold, window_start) DO NOTHING
+      RETURNING id INTO alert_id;
+
+      IF alert_id IS NOT NULL THEN
+        INSERT INTO notifications (user_id, kind, title, amount, event_date, link, source_key)
+        VALUES (
+          NEW.user_id,
+          'budget_threshold',
+          format('%s passed %s%%', coalesce(category_name, 'Budget'), threshold),
+          spent,
+          NEW.date,
+          'budget',
+          'budget_threshold:' || alert_id
+        )
+        ON CONFLICT (user_id, source_key) DO NOTHING;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_budget_alerts ON transactions;
+CREATE TRIGGER record_budget_alerts
+  AFTER INSERT OR UPDATE OF amount, exchange_rate, date, category_id, type ON transactions
+  FOR EACH ROW
+  WHEN (NEW.type = 'expense' AND NEW.category_id IS NOT NULL)
+  EXECUTE FUNCTION public.record_budget_alerts();
@@ -0,0 +1,154 @@
+/*
+  # Savings Goals
+
+  ## Overview
+  A goal is an amount to save, optionally by a target date. It is linked to either an account or an
+  expense category, which decides how a contribution is recorded: as a transfer into the linked
+  account, or as an expense in the linked category. Contributions are ordinary transactions tagged
+  with the goal, so they show up in balances, budgets and reports like any other transaction.
+
+  ## New Tables
+
+  ### `goals`
+  - `id` (uuid, primary key) - Unique identifier
+  - `user_id` (uuid) - References profiles(id)
+  - `name` (text) - Goal name
+  - `target_amount` (numeric) - Amount to save, in the home currency
+  - `target_date` (date, nullable) - Date to reach the target by
+  - `account_id` (uuid, nullable) - Account contributions are transferred into
+  - `category_id` (uuid, nullable) - Expense category contributions are booked against
+  - `color` (text) - Display color (default: '#10b981')
+  - `is_archived` (boolean) - Hidden from the goals list and dashboard (default: false)
+  - `created_at` (timestamptz) - Creation timestamp
+  - Exactly one of `account_id` and `category_id` is set
+
+  ## Changes
+
+  ### `transactions`
+  - `goal_id` (uuid, nullable) - Goal the transaction contributes to; cleared if the goal is deleted
+
+  ## Modified Functions
+
+  ### `merge_categories`
+  - Now also moves goals to the target category; a goal's category can't be deleted from under it
+
+  ## Security
+  - RLS on `goals` with the same ownership policies as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS goals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  target_amount numeric NOT NULL CHECK (target_amount > 0),
+  target_date date,
+  account_id uuid REFERENCES accounts(id) ON DELETE RESTRICT,
+  category_id uuid REFERENCES categories(id) ON DELETE RESTRICT,
+  color text NOT NULL DEFAULT '#10b981',
+  is_archived boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((account_id IS NULL) <> (category_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_goals_user_id ON goals(user_id);
+
+ALTER TABLE goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own goals"
+  ON goals FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own goals"
+  ON goals FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own goals"
+  ON goals FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own goals"
+  ON goals FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS goal_id uuid REFERENCES goals(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_goal_id ON transactions(goal_id);
+
+CREATE OR REPLACE FUNCTION public.merge_categories(source_category_id uuid, target_category_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  source_type text;
+  target_type text;
+  folded_budget_ids uuid[];
+BEGIN
+  IF source_category_id = target_category_id THEN
+    RAISE EXCEPTION 'Cannot merge a category into itself';
+  END IF;
+
+  SELECT type INTO source_type FROM categories
+  WHERE id = source_category_id AND user_id = auth.uid();
+
+  SELECT type INTO target_type FROM categories
+  WHERE id = target_category_id AND user_id = auth.uid();
+
+  IF source_type IS NULL OR target_type IS NULL THEN
+    RAISE EXCEPTION 'Category not found';
+  END IF;
+
+  IF source_type <> target_type THEN
+    RAISE EXCEPTION 'Only categories of the same type can be merged';
+  END IF;
+
+  UPDATE transactions
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  UPDATE recurring_transactions
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  UPDATE bill_reminders
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  UPDATE goals
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  -- Budgets are unique per category, period and month, so fold clashing budgets into the target
+  -- first and remember which source rows were folded
+  WITH folded AS (
+    UPDATE budgets AS target
+    SET amount = target.amount + source.amount,
+        start_date = CASE WHEN target.period = 'custom' THEN LEAST(target.start_date, source.start_date) ELSE target.start_date END,
+        end_date = CASE WHEN target.period = 'custom' THEN GREATEST(target.end_date, source.end_date) ELSE target.end_date END
+    FROM budgets AS source
+    WHERE source.category_id = source_category_id
+      AND target.category_id = target_category_id
+      AND target.user_id = source.user_id
+      AND target.period = source.period
+      AND target.month = source.month
+      AND target.year = source.year
+    RETURNING source.id
+  )
+  SELECT array_agg(id) INTO folded_budget_ids FROM folded;
+
+  DELETE FROM budgets WHERE id = ANY(folded_budget_ids);
+
+  UPDATE budgets
+  SET category_id = target_category_id
+  WHERE category_id = source_category_id;
+
+  DELETE FROM categories WHERE id = source_category_id;
+END;
+$$;
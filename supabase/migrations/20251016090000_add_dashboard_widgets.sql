@@ -0,0 +1,14 @@
+/*
+  # Dashboard Widgets
+
+  ## Overview
+  Each user picks which widgets the Dashboard shows and in what order. The layout is stored on the
+  profile as an ordered list of widget ids; the app defines the widgets themselves.
+
+  ## Modified Tables
+
+  ### `profiles`
+  - `dashboard_widgets` (text[], nullable) - Widget ids in display order; NULL shows the default layout
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS dashboard_widgets text[];
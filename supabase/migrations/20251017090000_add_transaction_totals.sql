@@ -0,0 +1,148 @@
+/*
+  # Transaction Totals
+
+  ## Overview
+  Reports and budgets used to download every transaction in a range and add the amounts up in the
+  browser. These functions do the summing in the database instead, with numeric arithmetic, and
+  return one row per group, so a two-year report is a single request however many transactions
+  it covers.
+
+  ## New Functions
+
+  ### `transaction_totals(from_date date, to_date date, bucket text)`
+  - The caller's income and expense totals between the two dates (inclusive), in the home
+    currency, grouped by `bucket` ('day', 'week', 'month' or 'year'; default: 'month'), type and
+    category
+  - Each row has `period_start` (first day of its bucket), `type`, `category_id`, the category's
+    `category_name`, `category_icon` and `category_color`, `total` and `transaction_count`
+  - Transfers are left out, as they are from every report
+
+  ### `budget_spending(budget_ids uuid[], reference date)`
+  - For each of the caller's budgets in `budget_ids`: the period containing `reference` (from
+    budget_window()), the expenses in that period and, for monthly budgets, what was carried over
+    into the month (from budget_carry_over())
+  - Replaces loadCarryOver() in src/lib/budgets.ts, so budget_carry_over() is now the only
+    implementation of rollover
+  - The service role may read any user's budgets, so the send-notifications function can put the
+    same figures in the email digest
+
+  ### `account_balances()`
+  - Each of the caller's accounts with its current `balance` in the home currency: the opening
+    balance plus income, minus expenses, plus transfers in and minus transfers out, the same as
+    signedAmountForAccount() in src/lib/accounts.ts
+  - Also returns `transaction_count`, the transactions and transfers touching the account
+
+  ## Indexes
+  - `transactions (user_id, date)` for the date-range scans the first two functions do
+
+  ## Security
+  - All three run as the caller (SECURITY INVOKER) so RLS applies, and only read the caller's rows
+*/
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_id_date ON transactions(user_id, date);
+
+CREATE OR REPLACE FUNCTION public.transaction_totals(from_date date, to_date date, bucket text DEFAULT 'month')
+RETURNS TABLE (
+  period_start date,
+  type text,
+  category_id uuid,
+  category_name text,
+  category_icon text,
+  category_color text,
+  total numeric,
+  transaction_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    date_trunc(bucket, t.date::timestamp)::date,
+    t.type,
+    t.category_id,
+    c.name,
+    c.icon,
+    c.color,
+    sum(t.amount * t.exchange_rate),
+    count(*)::integer
+  FROM transactions t
+  LEFT JOIN categories c ON c.id = t.category_id
+  WHERE t.user_id = auth.uid()
+    AND t.type IN ('income', 'expense')
+    AND t.date BETWEEN from_date AND to_date
+  GROUP BY 1, 2, 3, 4, 5, 6
+  ORDER BY 1, 2, 7 DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.transaction_totals(date, date, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.budget_spending(budget_ids uuid[], reference date)
+RETURNS TABLE (
+  budget_id uuid,
+  window_start date,
+  window_end date,
+  spent numeric,
+  carried_over numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    b.id,
+    lower(w.budget_range),
+    upper(w.budget_range) - 1,
+    coalesce((
+      SELECT sum(t.amount * t.exchange_rate)
+      FROM transactions t
+      WHERE t.user_id = b.user_id
+        AND t.category_id = b.category_id
+        AND t.type = 'expense'
+        AND t.date <@ w.budget_range
+    ), 0),
+    CASE
+      WHEN b.period = 'monthly' THEN budget_carry_over(b.user_id, b.category_id, b.month, b.year)
+      ELSE 0
+    END
+  FROM budgets b
+  CROSS JOIN LATERAL (
+    SELECT budget_window(b.period, b.start_date, b.end_date, reference) AS budget_range
+  ) w
+  WHERE b.id = ANY (budget_ids)
+    AND (b.user_id = auth.uid() OR auth.role() = 'service_role');
+$$;
+
+GRANT EXECUTE ON FUNCTION public.budget_spending(uuid[], date) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.account_balances()
+RETURNS TABLE (
+  account_id uuid,
+  balance numeric,
+  transaction_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    a.id,
+    a.opening_balance + coalesce(sum(
+      CASE
+        WHEN t.type = 'transfer' AND t.transfer_account_id = a.id THEN t.amount * t.exchange_rate
+        WHEN t.type = 'income' THEN t.amount * t.exchange_rate
+        ELSE -t.amount * t.exchange_rate
+      END
+    ), 0),
+    count(t.id)::integer
+  FROM accounts a
+  LEFT JOIN transactions t
+    ON t.user_id = a.user_id
+    AND (t.account_id = a.id OR (t.type = 'transfer' AND t.transfer_account_id = a.id))
+  WHERE a.user_id = auth.uid()
+  GROUP BY a.id, a.opening_balance;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.account_balances() TO authenticated;
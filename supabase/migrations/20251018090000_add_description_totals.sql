@@ -0,0 +1,52 @@
+/*
+  # Description Totals
+
+  ## Overview
+  The category drill-down on the analytics page grouped a category's expenses by description in
+  the browser, from a single request that stopped at the API's row limit. The grouping now happens
+  in the database, so the top descriptions cover every transaction in the range.
+
+  ## New Functions
+
+  ### `description_totals(category_id uuid, from_date date, to_date date, max_rows integer)`
+  - The caller's expenses in the category between the two dates (inclusive), grouped by
+    description ignoring case and surrounding spaces, largest total first
+  - A NULL `category_id` means uncategorized expenses
+  - Each row has the most recent spelling of the `description`, its `total` in the home currency
+    and `transaction_count`; at most `max_rows` rows (default: 5)
+
+  ## Security
+  - Runs as the caller (SECURITY INVOKER) so RLS applies, and only reads the caller's rows
+*/
+
+CREATE OR REPLACE FUNCTION public.description_totals(
+  category_id uuid,
+  from_date date,
+  to_date date,
+  max_rows integer DEFAULT 5
+)
+RETURNS TABLE (
+  description text,
+  total numeric,
+  transaction_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    (array_agg(btrim(coalesce(t.description, '')) ORDER BY t.date DESC, t.created_at DESC))[1],
+    sum(t.amount * t.exchange_rate),
+    count(*)::integer
+  FROM transactions t
+  WHERE t.user_id = auth.uid()
+    AND t.type = 'expense'
+    AND t.category_id IS NOT DISTINCT FROM description_totals.category_id
+    AND t.date BETWEEN from_date AND to_date
+  GROUP BY lower(btrim(coalesce(t.description, '')))
+  ORDER BY 2 DESC
+  LIMIT max_rows;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.description_totals(uuid, date, date, integer) TO authenticated;